@@ -0,0 +1,28 @@
+import { InMemoryBlobStore } from "./memory.js";
+import { LocalBlobStore } from "./local.js";
+import type { BlobStore } from "./store.js";
+
+export type { BlobStore } from "./store.js";
+export { InMemoryBlobStore } from "./memory.js";
+export { LocalBlobStore } from "./local.js";
+
+export type BlobStoreBackend = "memory" | "local";
+
+export interface BlobStoreConfig {
+  backend: BlobStoreBackend;
+  directory: string; // Used by the local backend
+}
+
+/**
+ * Create the blob store for the configured backend
+ */
+export function createBlobStore(config: BlobStoreConfig): BlobStore {
+  switch (config.backend) {
+    case "memory":
+      return new InMemoryBlobStore();
+    case "local":
+      return new LocalBlobStore(config.directory);
+    default:
+      throw new Error(`Unknown blob store backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,38 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BlobStore } from "./store.js";
+
+const LOCAL_URI = /^local:\/\/([0-9a-f]{64})$/;
+
+/**
+ * Local disk blob store
+ * One file per blob, named by its SHA-256, under a single directory
+ */
+export class LocalBlobStore implements BlobStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async put(bytes: Uint8Array): Promise<string> {
+    const hash = createHash("sha256").update(bytes).digest("hex");
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(join(this.directory, hash), bytes);
+    return `local://${hash}`;
+  }
+
+  async get(uri: string): Promise<Uint8Array | null> {
+    // Only our own URIs, so a stored URI can't point outside the directory
+    const hash = LOCAL_URI.exec(uri)?.[1];
+    if (!hash) return null;
+
+    try {
+      return new Uint8Array(await readFile(join(this.directory, hash)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
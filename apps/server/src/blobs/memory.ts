@@ -0,0 +1,20 @@
+import { createHash } from "node:crypto";
+import type { BlobStore } from "./store.js";
+
+/**
+ * In-memory stand-in for IPFS / Walrus
+ * Hands out ipfs:// URIs by content hash; everything is lost on restart
+ */
+export class InMemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, Uint8Array>();
+
+  async put(bytes: Uint8Array): Promise<string> {
+    const uri = `ipfs://${createHash("sha256").update(bytes).digest("hex")}`;
+    this.blobs.set(uri, bytes.slice());
+    return uri;
+  }
+
+  async get(uri: string): Promise<Uint8Array | null> {
+    return this.blobs.get(uri) ?? null;
+  }
+}
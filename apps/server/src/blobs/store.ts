@@ -0,0 +1,9 @@
+/**
+ * Blob Store
+ * Content-addressed storage for encrypted content blobs
+ */
+export interface BlobStore {
+  /** Store bytes, returning a URI derived from their SHA-256 */
+  put(bytes: Uint8Array): Promise<string>;
+  get(uri: string): Promise<Uint8Array | null>;
+}
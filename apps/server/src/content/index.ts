@@ -0,0 +1,42 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { InMemoryContentRepository } from "./memory.js";
+import { SqliteContentRepository } from "./sqlite.js";
+import type { ContentRepository } from "./repository.js";
+
+export type {
+  ContentRepository,
+  NewContent,
+  StoredContent,
+} from "./repository.js";
+export { InMemoryContentRepository } from "./memory.js";
+export { SqliteContentRepository } from "./sqlite.js";
+export {
+  ContentVault,
+  sealLegacyContent,
+  type SealedContent,
+} from "./vault.js";
+
+export type ContentStoreBackend = "memory" | "sqlite";
+
+export interface ContentStoreConfig {
+  backend: ContentStoreBackend;
+  databasePath: string; // Used by the sqlite backend
+}
+
+/**
+ * Create the content repository for the configured backend
+ */
+export function createContentRepository(
+  config: ContentStoreConfig
+): ContentRepository {
+  switch (config.backend) {
+    case "memory":
+      return new InMemoryContentRepository();
+    case "sqlite":
+      mkdirSync(dirname(config.databasePath), { recursive: true });
+      return new SqliteContentRepository(config.databasePath);
+    default:
+      throw new Error(`Unknown content store backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,44 @@
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+import type {
+  ContentRepository,
+  NewContent,
+  StoredContent,
+} from "./repository.js";
+
+/**
+ * In-memory content repository
+ * Everything is lost on restart - use for local development and tests
+ */
+export class InMemoryContentRepository implements ContentRepository {
+  private contents = new Map<string, StoredContent>();
+
+  async get(id: string): Promise<StoredContent | null> {
+    return this.contents.get(normalizeSuiObjectId(id)) ?? null;
+  }
+
+  async getMany(ids: string[]): Promise<StoredContent[]> {
+    return ids.flatMap(
+      (id) => this.contents.get(normalizeSuiObjectId(id)) ?? []
+    );
+  }
+
+  async list(): Promise<StoredContent[]> {
+    return Array.from(this.contents.values());
+  }
+
+  async save(content: NewContent): Promise<StoredContent> {
+    const now = Date.now();
+    const id = normalizeSuiObjectId(content.id);
+    const stored: StoredContent = {
+      ...content,
+      id,
+      createdAt: this.contents.get(id)?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.contents.set(id, stored);
+    return stored;
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,197 @@
+import type { Database } from "bun:sqlite";
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Schema migrations, applied in order
+ * Never edit a released migration - append a new one instead
+ */
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "create_content",
+    sql: `
+      CREATE TABLE content (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        price TEXT NOT NULL,
+        content_url TEXT NOT NULL DEFAULT '',
+        creator TEXT NOT NULL,
+        actual_content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX content_creator_idx ON content (creator);
+    `,
+  },
+  {
+    version: 2,
+    name: "add_content_coin_type",
+    sql: `
+      ALTER TABLE content
+        ADD COLUMN coin_type TEXT NOT NULL DEFAULT '0x2::sui::SUI';
+    `,
+  },
+  {
+    version: 3,
+    name: "create_event_index",
+    sql: `
+      CREATE TABLE indexed_content (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        price TEXT NOT NULL,
+        creator TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        tx_digest TEXT NOT NULL
+      );
+      CREATE TABLE indexed_purchases (
+        receipt_id TEXT PRIMARY KEY,
+        content_id TEXT NOT NULL,
+        purchaser TEXT NOT NULL,
+        price_paid TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        tx_digest TEXT NOT NULL
+      );
+      CREATE INDEX indexed_purchases_purchaser_idx
+        ON indexed_purchases (purchaser, content_id);
+      CREATE TABLE event_cursors (
+        stream TEXT PRIMARY KEY,
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: "index_creator_sales",
+    sql: `
+      CREATE INDEX indexed_content_creator_idx ON indexed_content (creator);
+      CREATE INDEX indexed_purchases_content_idx
+        ON indexed_purchases (content_id, timestamp);
+    `,
+  },
+  {
+    version: 5,
+    name: "add_content_encryption",
+    sql: `
+      ALTER TABLE content ADD COLUMN blob_uri TEXT NOT NULL DEFAULT '';
+      ALTER TABLE content ADD COLUMN content_key TEXT NOT NULL DEFAULT '';
+    `,
+  },
+  {
+    version: 6,
+    name: "add_content_subscription_period",
+    sql: `
+      ALTER TABLE content ADD COLUMN subscription_period_ms TEXT;
+    `,
+  },
+  {
+    version: 7,
+    name: "add_content_revenue_split",
+    sql: `
+      ALTER TABLE content ADD COLUMN revenue_split TEXT;
+    `,
+  },
+  {
+    version: 8,
+    name: "add_content_delisted_at",
+    sql: `
+      ALTER TABLE content ADD COLUMN delisted_at INTEGER;
+    `,
+  },
+  {
+    version: 9,
+    name: "create_indexed_revenue_splits",
+    sql: `
+      CREATE TABLE indexed_revenue_splits (
+        content_id TEXT NOT NULL,
+        shares TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        tx_digest TEXT NOT NULL,
+        PRIMARY KEY (tx_digest, content_id)
+      );
+      CREATE INDEX indexed_revenue_splits_content_idx
+        ON indexed_revenue_splits (content_id, updated_at);
+    `,
+  },
+  {
+    version: 10,
+    name: "create_indexed_delistings",
+    sql: `
+      CREATE TABLE indexed_delistings (
+        content_id TEXT PRIMARY KEY,
+        delisted_at INTEGER NOT NULL,
+        tx_digest TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 11,
+    name: "create_indexed_renewals",
+    sql: `
+      CREATE TABLE indexed_renewals (
+        receipt_id TEXT NOT NULL,
+        content_id TEXT NOT NULL,
+        purchaser TEXT NOT NULL,
+        price_paid TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        tx_digest TEXT NOT NULL,
+        PRIMARY KEY (tx_digest, receipt_id)
+      );
+      CREATE INDEX indexed_renewals_content_idx
+        ON indexed_renewals (content_id, timestamp);
+    `,
+  },
+  {
+    version: 12,
+    name: "normalize_content_ids",
+    // Pad short 0x IDs to 64 lowercase hex digits, as normalizeSuiObjectId does
+    // A row whose normalized ID is already taken is left as it was
+    sql: `
+      UPDATE OR IGNORE content
+        SET id = '0x' || substr('${"0".repeat(64)}', 1, 66 - length(id))
+          || lower(substr(id, 3))
+        WHERE lower(substr(id, 1, 2)) = '0x' AND length(id) <= 66;
+    `,
+  },
+];
+
+/**
+ * Apply pending migrations, tracking applied versions in schema_migrations
+ */
+export function migrate(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .query<{ version: number }, []>("SELECT version FROM schema_migrations")
+      .all()
+      .map((row) => row.version)
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    db.transaction(() => {
+      db.run(migration.sql);
+      db.run(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        [migration.version, migration.name, Date.now()]
+      );
+    })();
+
+    console.log(`🗄️  Applied migration ${migration.version}_${migration.name}`);
+  }
+}
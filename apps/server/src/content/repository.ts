@@ -0,0 +1,30 @@
+import type { ContentMetadata } from "@atomic402/sui-sdk";
+import type { SealedContent } from "./vault.js";
+
+/** The premium content itself is only stored encrypted, see ContentVault */
+export interface StoredContent extends ContentMetadata, SealedContent {
+  legacyContent?: string; // Plaintext saved before encryption at rest
+  delistedAt?: number; // Unix ms; no longer sold, but buyers keep access
+  createdAt: number; // Unix ms
+  updatedAt: number; // Unix ms
+}
+
+export type NewContent = Omit<
+  StoredContent,
+  "legacyContent" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Content Repository
+ * Storage backend for registered content metadata and premium content
+ * IDs are normalized on save and lookup, so any form of an object ID matches
+ */
+export interface ContentRepository {
+  get(id: string): Promise<StoredContent | null>;
+  /** The stored items among ids, in one lookup; unknown IDs are skipped */
+  getMany(ids: string[]): Promise<StoredContent[]>;
+  list(): Promise<StoredContent[]>;
+  /** Insert or replace content, keeping the original createdAt */
+  save(content: NewContent): Promise<StoredContent>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,86 @@
+import type { ContentRepository, NewContent } from "./repository.js";
+import type { ContentVault, SealedContent } from "./vault.js";
+
+type SampleContent = Omit<NewContent, "id" | keyof SealedContent> & {
+  actualContent: string; // Sealed by the vault when seeded
+};
+
+// Sample content configuration
+// IMPORTANT: Replace these IDs with actual on-chain content object IDs after creating them
+// To create content on-chain, use the createContent function or sui CLI
+const sampleContents: SampleContent[] = [
+  {
+    title: "Understanding x402 on Sui",
+    description: "Deep dive into how x402 protocol works on Sui blockchain",
+    price: "100000000", // 0.1 SUI in MIST
+    contentUrl: "ipfs://QmX123...",
+    creator:
+      "0x729f0672594998979883d4001939359565b70866693935645810b4710b3066a5",
+    actualContent: `# Understanding x402 on Sui
+
+This is premium content that explains how x402 works on Sui...
+
+The key innovation is that payment and access grant happen atomically in a single transaction!
+
+With Sui's programmable transaction blocks (PTBs), we can:
+1. Transfer payment to content creator
+2. Mint access receipt NFT
+3. All in ONE indivisible transaction
+
+No verification delay. No polling. No trust issues.`,
+  },
+  {
+    title: "Programmable Transaction Blocks Guide",
+    description: "Learn how to build complex PTBs on Sui",
+    price: "200000000", // 0.2 SUI
+    contentUrl: "ipfs://QmY456...",
+    creator:
+      "0x729f0672594998979883d4001939359565b70866693935645810b4710b3066a5",
+    actualContent: `# PTB Mastery
+
+Programmable Transaction Blocks are Sui's superpower...
+
+[Premium detailed content here]`,
+  },
+  {
+    title: "Building DeFi on Sui",
+    description: "Complete guide to DeFi development on Sui",
+    price: "500000000", // 0.5 SUI
+    contentUrl: "ipfs://QmZ789...",
+    creator:
+      "0x729f0672594998979883d4001939359565b70866693935645810b4710b3066a5",
+    actualContent: `# DeFi on Sui
+
+Learn how to build the next generation of DeFi protocols...
+
+[Premium detailed content here]`,
+  },
+];
+
+const contentIds = [
+  "0x640877b52eb909446d43d019f9a771b4dbf9f98727f0365d1cef871fcff6f45a",
+  "0x9bb8765c7e536adc4806e347dee627748ba28571ee9d2f39222fe8dba38eaa70",
+  "0x9bb8765c7e536adc4806e347dee627748ba28571ee9d2f39222fe8dba38eaa70",
+];
+
+/**
+ * Seed the sample content into an empty repository, encrypted by the vault
+ */
+export async function seedSampleContent(
+  repository: ContentRepository,
+  vault: ContentVault
+): Promise<void> {
+  const existing = await repository.list();
+  if (existing.length > 0) return;
+
+  for (const [index, sample] of sampleContents.entries()) {
+    // Use real on-chain object ID if provided, otherwise use placeholder
+    const id = contentIds[index]!;
+    const { actualContent, ...content } = sample;
+    await repository.save({
+      ...content,
+      id,
+      ...(await vault.seal(actualContent)),
+    });
+  }
+}
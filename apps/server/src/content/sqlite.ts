@@ -0,0 +1,139 @@
+import { Database } from "bun:sqlite";
+import type { RevenueShare } from "@atomic402/sui-sdk";
+import { normalizeSuiObjectId, SUI_TYPE_ARG } from "@mysten/sui/utils";
+import { migrate } from "./migrations.js";
+import type {
+  ContentRepository,
+  NewContent,
+  StoredContent,
+} from "./repository.js";
+
+interface ContentRow {
+  id: string;
+  title: string;
+  description: string;
+  price: string;
+  content_url: string;
+  creator: string;
+  coin_type: string;
+  subscription_period_ms: string | null;
+  revenue_split: string | null; // JSON RevenueShare[]
+  actual_content: string; // Legacy plaintext, '' once sealed
+  blob_uri: string;
+  content_key: string;
+  delisted_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * SQLite content repository
+ * Persists content across restarts, migrating the schema on open
+ */
+export class SqliteContentRepository implements ContentRepository {
+  private db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run("PRAGMA journal_mode = WAL");
+    migrate(this.db);
+  }
+
+  async get(id: string): Promise<StoredContent | null> {
+    const row = this.db
+      .query<ContentRow, [string]>("SELECT * FROM content WHERE id = ?")
+      .get(normalizeSuiObjectId(id));
+    return row ? this.toContent(row) : null;
+  }
+
+  async getMany(ids: string[]): Promise<StoredContent[]> {
+    if (ids.length === 0) return [];
+    return this.db
+      .query<ContentRow, string[]>(
+        `SELECT * FROM content WHERE id IN (SELECT value FROM json_each(?))`
+      )
+      .all(JSON.stringify(ids.map((id) => normalizeSuiObjectId(id))))
+      .map((row) => this.toContent(row));
+  }
+
+  async list(): Promise<StoredContent[]> {
+    return this.db
+      .query<ContentRow, []>("SELECT * FROM content ORDER BY created_at")
+      .all()
+      .map((row) => this.toContent(row));
+  }
+
+  async save(content: NewContent): Promise<StoredContent> {
+    const now = Date.now();
+    const row = this.db
+      .query<ContentRow, (string | number | null)[]>(
+        `INSERT INTO content (
+          id, title, description, price, content_url, creator, coin_type,
+          subscription_period_ms, revenue_split, actual_content, blob_uri,
+          content_key, delisted_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, '', ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          title = excluded.title,
+          description = excluded.description,
+          price = excluded.price,
+          content_url = excluded.content_url,
+          creator = excluded.creator,
+          coin_type = excluded.coin_type,
+          subscription_period_ms = excluded.subscription_period_ms,
+          revenue_split = excluded.revenue_split,
+          actual_content = excluded.actual_content,
+          blob_uri = excluded.blob_uri,
+          content_key = excluded.content_key,
+          delisted_at = excluded.delisted_at,
+          updated_at = excluded.updated_at
+        RETURNING *`
+      )
+      .get(
+        normalizeSuiObjectId(content.id),
+        content.title,
+        content.description,
+        content.price,
+        content.contentUrl,
+        content.creator,
+        content.coinType || SUI_TYPE_ARG,
+        content.subscriptionPeriodMs ?? null,
+        content.recipients ? JSON.stringify(content.recipients) : null,
+        content.blobUri,
+        content.contentKey,
+        content.delistedAt ?? null,
+        now,
+        now
+      );
+
+    if (!row) {
+      throw new Error(`Failed to save content ${content.id}`);
+    }
+    return this.toContent(row);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private toContent(row: ContentRow): StoredContent {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      price: row.price,
+      contentUrl: row.content_url,
+      creator: row.creator,
+      coinType: row.coin_type,
+      subscriptionPeriodMs: row.subscription_period_ms ?? undefined,
+      recipients: row.revenue_split
+        ? (JSON.parse(row.revenue_split) as RevenueShare[])
+        : undefined,
+      blobUri: row.blob_uri,
+      contentKey: row.content_key,
+      legacyContent: row.actual_content || undefined,
+      delistedAt: row.delisted_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
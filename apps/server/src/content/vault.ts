@@ -0,0 +1,123 @@
+import {
+  decryptWithContentKey,
+  encryptContent,
+  generateContentKey,
+  wrapContentKey,
+  type EncryptedContent,
+  type EncryptedContentPayload,
+} from "@atomic402/sui-sdk";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import type { BlobStore } from "../blobs/index.js";
+import type { ContentRepository } from "./repository.js";
+
+/**
+ * Where a content item's ciphertext lives, and its key
+ * The content key is itself encrypted with the vault's master key
+ */
+export interface SealedContent {
+  blobUri: string;
+  contentKey: string; // JSON EncryptedContent of the base64 content key
+}
+
+/**
+ * Content Vault
+ * Encrypts premium content at rest with a per-item key, and releases that
+ * key only wrapped for a buyer's public key
+ */
+export class ContentVault {
+  private blobs: BlobStore;
+  private masterKey: Uint8Array;
+
+  constructor(blobs: BlobStore, masterKey: Uint8Array) {
+    if (masterKey.length !== 32) {
+      throw new Error("Content master key must be 32 bytes");
+    }
+    this.blobs = blobs;
+    this.masterKey = masterKey;
+  }
+
+  /**
+   * Encrypt plaintext under a fresh content key and store the blob
+   */
+  async seal(plaintext: string): Promise<SealedContent> {
+    const contentKey = generateContentKey();
+    const blob = await encryptContent(plaintext, contentKey);
+    const blobUri = await this.blobs.put(
+      new TextEncoder().encode(JSON.stringify(blob))
+    );
+    const sealedKey = await encryptContent(
+      toBase64(contentKey),
+      this.masterKey
+    );
+    return { blobUri, contentKey: JSON.stringify(sealedKey) };
+  }
+
+  /**
+   * Decrypt on the server, for readers without a key pair
+   */
+  async open(content: SealedContent): Promise<string> {
+    return decryptWithContentKey(
+      await this.getBlob(content),
+      await this.unsealKey(content)
+    );
+  }
+
+  /**
+   * The encrypted blob and its content key, wrapped for recipientPublicKey
+   * Only call once the recipient has proven access
+   */
+  async release(
+    content: SealedContent,
+    recipientPublicKey: string
+  ): Promise<EncryptedContentPayload> {
+    return {
+      blob: await this.getBlob(content),
+      key: await wrapContentKey(
+        await this.unsealKey(content),
+        recipientPublicKey
+      ),
+    };
+  }
+
+  private async getBlob(content: SealedContent): Promise<EncryptedContent> {
+    const bytes = await this.blobs.get(content.blobUri);
+    if (!bytes) {
+      throw new Error(`Content blob not found: ${content.blobUri}`);
+    }
+    return JSON.parse(new TextDecoder().decode(bytes)) as EncryptedContent;
+  }
+
+  private async unsealKey(content: SealedContent): Promise<Uint8Array> {
+    const sealedKey = JSON.parse(content.contentKey) as EncryptedContent;
+    return fromBase64(await decryptWithContentKey(sealedKey, this.masterKey));
+  }
+}
+
+/**
+ * Encrypt content saved in plaintext before encryption at rest
+ */
+export async function sealLegacyContent(
+  repository: ContentRepository,
+  vault: ContentVault
+): Promise<number> {
+  let sealed = 0;
+  for (const content of await repository.list()) {
+    if (content.legacyContent === undefined) continue;
+
+    await repository.save({
+      id: content.id,
+      title: content.title,
+      description: content.description,
+      price: content.price,
+      contentUrl: content.contentUrl,
+      creator: content.creator,
+      coinType: content.coinType,
+      subscriptionPeriodMs: content.subscriptionPeriodMs,
+      recipients: content.recipients,
+      delistedAt: content.delistedAt,
+      ...(await vault.seal(content.legacyContent)),
+    });
+    sealed++;
+  }
+  return sealed;
+}
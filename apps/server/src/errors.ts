@@ -0,0 +1,47 @@
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { X402Error, X402ErrorCode } from "@atomic402/sui-sdk";
+
+/**
+ * HTTP status for each error code
+ */
+const ERROR_STATUS: Record<X402ErrorCode, ContentfulStatusCode> = {
+  INVALID_REQUEST: 400,
+  INVALID_RESPONSE: 502,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  NOT_CONFIGURED: 503,
+  INVALID_CONTENT: 422,
+  PAYMENT_REQUIRED: 402,
+  INSUFFICIENT_BALANCE: 402,
+  ACCESS_DENIED: 401,
+  RATE_LIMITED: 429,
+  QUOTE_UNKNOWN: 400,
+  QUOTE_EXPIRED: 410,
+  QUOTE_ALREADY_USED: 409,
+  TRANSACTION_REJECTED: 400,
+  IDEMPOTENCY_KEY_REUSED: 422,
+  SPONSOR_LIMIT_EXCEEDED: 429,
+  SPONSOR_UNAVAILABLE: 503,
+  MOVE_ABORT: 422,
+  TRANSACTION_FAILED: 422,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * JSON error body: { success: false, error, code, reason?, data? }
+ * data carries what is still known, e.g. the digest of a failed transaction
+ */
+export function errorResponse(c: Context, error: X402Error, data?: unknown) {
+  return c.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      reason: error.reason,
+      data,
+    },
+    ERROR_STATUS[error.code]
+  );
+}
@@ -1,25 +1,120 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
+import { createMiddleware } from "hono/factory";
+import { getConnInfo } from "hono/bun";
+import { HTTPException } from "hono/http-exception";
 import { SuiClient } from "@mysten/sui/client";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import {
+  fromBase64,
+  normalizeSuiAddress,
+  normalizeSuiObjectId,
+  SUI_TYPE_ARG,
+} from "@mysten/sui/utils";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
 
-import { createX402Server } from "@atomic402/sui-sdk";
+import {
+  createX402Server,
+  createGasCoinPool,
+  createSponsorPolicy,
+  decodePaymentHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader,
+  honoX402Paywall,
+  ACCESS_PROOF_HEADER,
+  CONTENT_KEY_HEADER,
+  IDEMPOTENCY_KEY_HEADER,
+  PAYMENT_HEADER,
+  PAYMENT_REQUIRED_HEADER,
+  PAYMENT_RESPONSE_HEADER,
+  GasPoolExhaustedError,
+  InsufficientBalanceError,
+  MoveAbortError,
+  SponsorPolicyError,
+  X402_VERSION,
+  X402Error,
+} from "@atomic402/sui-sdk";
 import type {
+  AccessChallenge,
+  AccessReceiptData,
+  ApiResponse,
+  ContentItemDetails,
   ContentMetadata,
-  SignedTransactionRequest,
+  ExecuteResult,
+  PaymentRequiredResponse,
 } from "@atomic402/sui-sdk";
+import {
+  API_ROUTES,
+  buildContentRegistrationMessage,
+  buildContentUpdateMessage,
+  type BundlePurchase,
+  type ContentBody,
+  type ContentDelistResult,
+  type ContentRegistrationResult,
+  type ContentUpdate,
+  type CreatorStats,
+} from "@repo/shared";
+
+import { createBlobStore, type BlobStoreBackend } from "./blobs/index.js";
+import {
+  ContentVault,
+  createContentRepository,
+  sealLegacyContent,
+  type ContentStoreBackend,
+  type StoredContent,
+} from "./content/index.js";
+import { seedSampleContent } from "./content/samples.js";
+import {
+  buildCreatorStats,
+  createEventIndexStore,
+  createEventIndexer,
+} from "./indexer/index.js";
+import { errorResponse } from "./errors.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { jsonBody, queryParams } from "./validation.js";
 
 const app = new Hono();
 
-// Enable CORS for frontend
-app.use("/*", cors());
+// Enable CORS for frontend (and expose x402 headers to browser clients)
+app.use(
+  "/*",
+  cors({
+    origin: "*",
+    exposeHeaders: [PAYMENT_REQUIRED_HEADER, PAYMENT_RESPONSE_HEADER],
+  })
+);
 
 // ===== Configuration =====
 const NETWORK = process.env.SUI_NETWORK || "testnet";
 const RPC_URL =
   process.env.SUI_RPC_URL || "https://fullnode.testnet.sui.io:443";
 const PACKAGE_ID = process.env.PACKAGE_ID || "DEPLOY_AND_UPDATE_THIS";
+const CONTENT_STORE = (process.env.CONTENT_STORE ||
+  "memory") as ContentStoreBackend;
+const DATABASE_PATH = process.env.DATABASE_PATH || "./data/atomic402.db";
+
+// Encrypted content blobs: local disk, or an in-memory IPFS / Walrus stand-in
+const BLOB_STORE = (process.env.BLOB_STORE ||
+  (CONTENT_STORE === "sqlite" ? "local" : "memory")) as BlobStoreBackend;
+const BLOB_DIR = process.env.BLOB_DIR || "./data/blobs";
+
+// Base64 32-byte master key that encrypts each item's content key
+const CONTENT_KEY_SECRET = process.env.CONTENT_KEY_SECRET;
+
+// Index ContentCreated / ContentPurchased events into the content store's backend
+const INDEXER_ENABLED =
+  process.env.INDEXER_ENABLED === "true" &&
+  PACKAGE_ID !== "DEPLOY_AND_UPDATE_THIS";
+
+// Trust X-Forwarded-For for client IPs (only behind a proxy you control)
+const TRUST_PROXY = process.env.TRUST_PROXY === "true";
+
+// Legacy: return decrypted content to readers that send no X-Content-Key
+const PLAINTEXT_CONTENT = process.env.PLAINTEXT_CONTENT === "true";
+
+// How long a creator's registration or update signature stays valid
+const CREATOR_SIGNATURE_TTL_MS = 10 * 60 * 1000;
 
 // Initialize Sui client
 const suiClient = new SuiClient({ url: RPC_URL });
@@ -32,84 +127,91 @@ if (process.env.SPONSOR_PRIVATE_KEY) {
   sponsorKeypair = Ed25519Keypair.fromSecretKey(secretKey);
 }
 
+// Sponsor spending limits (amounts in MIST, daily limits reset at UTC midnight)
+const sponsorPolicy = createSponsorPolicy({
+  maxGasPerTransaction: process.env.SPONSOR_MAX_GAS_PER_TX || "50000000",
+  dailyGasPerAddress: process.env.SPONSOR_DAILY_GAS_PER_ADDRESS || "500000000",
+  dailyGasPerIp: process.env.SPONSOR_DAILY_GAS_PER_IP || "1000000000",
+  dailyGasGlobal: process.env.SPONSOR_DAILY_GAS_GLOBAL || "10000000000",
+  allowList: process.env.SPONSOR_ALLOW_LIST?.split(",").filter(Boolean),
+  denyList: process.env.SPONSOR_DENY_LIST?.split(",").filter(Boolean),
+  minSponsorBalance: process.env.SPONSOR_MIN_BALANCE || "100000000",
+});
+
+// Sponsor gas coins, one leased per outstanding 402 quote
+const gasPool = sponsorKeypair
+  ? createGasCoinPool({
+      suiClient,
+      sponsorKeypair,
+      size: parseInt(process.env.GAS_POOL_SIZE || "10"),
+      coinBalance: process.env.GAS_POOL_COIN_BALANCE || "200000000",
+    })
+  : undefined;
+
 // Initialize x402 server SDK
 const x402Server = createX402Server({
   suiClient,
   packageId: PACKAGE_ID,
   sponsorKeypair,
+  sponsorPolicy,
+  gasPool,
+  network: NETWORK,
 });
 
-// ===== In-Memory Content Storage =====
-// In production, this would be a database
-interface StoredContent extends ContentMetadata {
-  actualContent: string; // The premium content itself
+/**
+ * Best-effort client IP for the sponsor policy and challenge limits
+ */
+function clientIp(c: Context): string | undefined {
+  if (TRUST_PROXY) {
+    const forwarded = c.req.header("x-forwarded-for")?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    // Not running under Bun.serve (e.g. app.request in scripts)
+    return undefined;
+  }
 }
 
-const contentStore = new Map<string, StoredContent>();
-
-// Sample content configuration
-// IMPORTANT: Replace these IDs with actual on-chain content object IDs after creating them
-// To create content on-chain, use the createContent function or sui CLI
-const sampleContents: Omit<StoredContent, "id">[] = [
-  {
-    title: "Understanding x402 on Sui",
-    description: "Deep dive into how x402 protocol works on Sui blockchain",
-    price: "100000000", // 0.1 SUI in MIST
-    contentUrl: "ipfs://QmX123...",
-    creator:
-      "0x729f0672594998979883d4001939359565b70866693935645810b4710b3066a5",
-    actualContent: `# Understanding x402 on Sui
-
-This is premium content that explains how x402 works on Sui...
-
-The key innovation is that payment and access grant happen atomically in a single transaction!
-
-With Sui's programmable transaction blocks (PTBs), we can:
-1. Transfer payment to content creator
-2. Mint access receipt NFT
-3. All in ONE indivisible transaction
-
-No verification delay. No polling. No trust issues.`,
-  },
-  {
-    title: "Programmable Transaction Blocks Guide",
-    description: "Learn how to build complex PTBs on Sui",
-    price: "200000000", // 0.2 SUI
-    contentUrl: "ipfs://QmY456...",
-    creator:
-      "0x729f0672594998979883d4001939359565b70866693935645810b4710b3066a5",
-    actualContent: `# PTB Mastery
-
-Programmable Transaction Blocks are Sui's superpower...
-
-[Premium detailed content here]`,
-  },
-  {
-    title: "Building DeFi on Sui",
-    description: "Complete guide to DeFi development on Sui",
-    price: "500000000", // 0.5 SUI
-    contentUrl: "ipfs://QmZ789...",
-    creator:
-      "0x729f0672594998979883d4001939359565b70866693935645810b4710b3066a5",
-    actualContent: `# DeFi on Sui
-
-Learn how to build the next generation of DeFi protocols...
-
-[Premium detailed content here]`,
-  },
-];
-
-// Initialize sample content in store
-const contentIds = [
-  "0x640877b52eb909446d43d019f9a771b4dbf9f98727f0365d1cef871fcff6f45a",
-  "0x9bb8765c7e536adc4806e347dee627748ba28571ee9d2f39222fe8dba38eaa70",
-  "0x9bb8765c7e536adc4806e347dee627748ba28571ee9d2f39222fe8dba38eaa70",
-];
-sampleContents.forEach((content, index) => {
-  // Use real on-chain object ID if provided, otherwise use placeholder
-  const id = contentIds[index]!;
-  contentStore.set(id, { ...content, id });
+// ===== Content Storage =====
+// Persisted content keys are unreadable under a different master key
+if (!CONTENT_KEY_SECRET && CONTENT_STORE === "sqlite") {
+  throw new Error("CONTENT_KEY_SECRET is required with CONTENT_STORE=sqlite");
+}
+const vault = new ContentVault(
+  createBlobStore({ backend: BLOB_STORE, directory: BLOB_DIR }),
+  CONTENT_KEY_SECRET
+    ? fromBase64(CONTENT_KEY_SECRET)
+    : crypto.getRandomValues(new Uint8Array(32))
+);
+const contentStore = createContentRepository({
+  backend: CONTENT_STORE,
+  databasePath: DATABASE_PATH,
 });
+await seedSampleContent(contentStore, vault);
+const sealed = await sealLegacyContent(contentStore, vault);
+if (sealed > 0) {
+  console.log(`🔐 Encrypted ${sealed} plaintext content item(s)`);
+}
+
+// ===== Event Index =====
+// Listing and the pre-paywall access check read from here when enabled
+const indexStore = INDEXER_ENABLED
+  ? createEventIndexStore({
+      backend: CONTENT_STORE,
+      databasePath: DATABASE_PATH,
+    })
+  : undefined;
+const indexer = indexStore
+  ? createEventIndexer({
+      source: suiClient,
+      store: indexStore,
+      packageId: PACKAGE_ID,
+      pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || "5000"),
+    })
+  : undefined;
 
 // ===== API Routes =====
 
@@ -122,239 +224,1047 @@ app.get("/", (c) => {
       health: "/health",
       contents: "/content",
       content: "/content/:id",
+      challenge: "/content/:id/challenge",
       execute: "/content/:id/execute",
+      receipts: "/receipts/:address",
+      creatorStats: "/creators/:address/stats",
+      openapi: "/openapi.json",
     },
   });
 });
 
+/**
+ * GET /openapi.json
+ * OpenAPI document built from the shared route declarations
+ */
+app.get("/openapi.json", (c) => {
+  return c.json(
+    buildOpenApiDocument({
+      title: "atomic402 API",
+      version: "1.0.0",
+      serverUrl: new URL(c.req.url).origin,
+    })
+  );
+});
+
 app.get("/health", (c) => {
-  return c.json({ status: "ok", network: NETWORK, packageId: PACKAGE_ID });
+  return c.json({
+    status: "ok",
+    network: NETWORK,
+    packageId: PACKAGE_ID,
+    gasMode: x402Server.getGasMode(),
+    sponsor: sponsorKeypair?.toSuiAddress() ?? null,
+    quotePublicKey: x402Server.getQuotePublicKey(),
+  });
 });
 
 /**
  * POST /content/register
  * Register content metadata after user creates it on-chain
+ * The creator signs the registration, and the ContentItem is checked on-chain
  */
-app.post("/content/register", async (c) => {
-  try {
-    const body = await c.req.json();
-    const { contentId, creator, title, description, contentData, price } = body;
+app.post(
+  API_ROUTES.registerContent.path,
+  jsonBody(API_ROUTES.registerContent.body),
+  async (c) => {
+    try {
+      const {
+        contentId,
+        creator,
+        title,
+        description,
+        contentData,
+        price,
+        signature,
+        issuedAt,
+      } = c.req.valid("json");
 
-    // Validate required fields
-    if (
-      !contentId ||
-      !creator ||
-      !title ||
-      !description ||
-      !contentData ||
-      !price
-    ) {
-      return c.json({ success: false, error: "Missing required fields" }, 400);
-    }
+      if (PACKAGE_ID === "DEPLOY_AND_UPDATE_THIS") {
+        return c.json(
+          {
+            success: false,
+            error: "Package not deployed yet",
+            code: "NOT_CONFIGURED",
+          },
+          503
+        );
+      }
 
-    // Store content in our database/memory
-    const newContent: StoredContent = {
-      id: contentId,
-      title,
-      description,
-      price,
-      creator,
-      contentUrl: "",
-      actualContent: contentData,
-    };
+      // Only the creator wallet may register its content
+      if (!signature || typeof issuedAt !== "number") {
+        return c.json(
+          {
+            success: false,
+            error: "Creator signature required",
+            code: "UNAUTHORIZED",
+          },
+          401
+        );
+      }
 
-    contentStore.set(contentId, newContent);
+      if (Math.abs(Date.now() - issuedAt) > CREATOR_SIGNATURE_TTL_MS) {
+        return c.json(
+          {
+            success: false,
+            error: "Registration signature expired",
+            code: "UNAUTHORIZED",
+          },
+          401
+        );
+      }
 
-    return c.json({
-      success: true,
-      data: { contentId },
-    });
-  } catch (error) {
-    console.error("Register content error:", error);
-    return c.json(
-      {
-        success: false,
-        error:
-          error instanceof Error ? error.message : "Failed to register content",
-      },
-      500
-    );
+      const message = await buildContentRegistrationMessage({
+        contentId,
+        creator,
+        price,
+        contentData,
+        issuedAt,
+      });
+
+      try {
+        await verifyPersonalMessageSignature(
+          new TextEncoder().encode(message),
+          signature,
+          { address: creator, client: suiClient }
+        );
+      } catch {
+        return c.json(
+          {
+            success: false,
+            error: "Invalid creator signature",
+            code: "UNAUTHORIZED",
+          },
+          401
+        );
+      }
+
+      // The registration must match the ContentItem on-chain
+      const onChain = await x402Server.getContentDetails(contentId);
+      if (!onChain) {
+        return c.json(
+          {
+            success: false,
+            error: "Content object not found on-chain",
+            code: "NOT_FOUND",
+          },
+          404
+        );
+      }
+
+      if (onChain.objectType !== x402Server.getContentItemType()) {
+        return c.json(
+          {
+            success: false,
+            error: `Object is not a content_access::ContentItem from package ${PACKAGE_ID}`,
+            code: "INVALID_CONTENT",
+          },
+          422
+        );
+      }
+
+      if (
+        normalizeSuiAddress(onChain.creator) !== normalizeSuiAddress(creator)
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Creator does not match the on-chain ContentItem",
+            code: "FORBIDDEN",
+          },
+          403
+        );
+      }
+
+      if (onChain.price !== String(price)) {
+        return c.json(
+          {
+            success: false,
+            error: `Price does not match the on-chain ContentItem (expected ${onChain.price})`,
+            code: "INVALID_CONTENT",
+          },
+          422
+        );
+      }
+
+      if (onChain.delisted) {
+        return c.json(
+          {
+            success: false,
+            error: "ContentItem has been delisted",
+            code: "INVALID_CONTENT",
+          },
+          422
+        );
+      }
+
+      // Store content in the configured repository
+      await contentStore.save({
+        id: contentId,
+        title,
+        description,
+        price: onChain.price,
+        creator: onChain.creator,
+        contentUrl: onChain.contentUrl,
+        coinType: onChain.coinType,
+        subscriptionPeriodMs: onChain.subscriptionPeriodMs,
+        recipients: onChain.recipients,
+        ...(await vault.seal(contentData)),
+      });
+
+      return c.json({
+        success: true,
+        data: { contentId },
+      } satisfies ApiResponse<ContentRegistrationResult>);
+    } catch (error) {
+      console.error("Register content error:", error);
+      return c.json(
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to register content",
+          code: "INTERNAL_ERROR",
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
- * GET /content
- * List all available content
+ * Strip server-only fields before handing content to the x402 SDK
  */
-app.get("/content", (c) => {
-  const contents = Array.from(contentStore.values()).map((content) => ({
+function toContentMetadata(content: ContentMetadata): ContentMetadata {
+  return {
     id: content.id,
     title: content.title,
     description: content.description,
     price: content.price,
+    contentUrl: content.contentUrl,
     creator: content.creator,
-  }));
+    coinType: content.coinType,
+    subscriptionPeriodMs: content.subscriptionPeriodMs,
+    recipients: content.recipients,
+  };
+}
 
-  return c.json({ success: true, data: contents });
+/**
+ * GET /content
+ * List all available content
+ * With the indexer on, only content seen on-chain is listed, at its on-chain price
+ * Delisted content is left out, whether delisted here or only on-chain
+ */
+app.get(API_ROUTES.listContent.path, async (c) => {
+  let contents = (await contentStore.list())
+    .filter((content) => !content.delistedAt)
+    .map(toContentMetadata);
+
+  if (indexStore) {
+    const indexed = new Map(
+      (await indexStore.listContent()).map((item) => [item.id, item])
+    );
+    contents = contents.flatMap((content) => {
+      const item = indexed.get(normalizeSuiObjectId(content.id));
+      return item && !item.delistedAt
+        ? [{ ...content, price: item.price, creator: item.creator }]
+        : [];
+    });
+  }
+
+  return c.json({
+    success: true,
+    data: contents,
+  } satisfies ApiResponse<ContentMetadata[]>);
 });
 
 /**
- * GET /content/:id
- * Request specific content
- * Returns 402 if user doesn't have access, or content if they do
+ * GET /content/:id/challenge
+ * Issue a nonce the wallet signs to prove it owns the address
+ */
+app.get(
+  API_ROUTES.getChallenge.path,
+  queryParams(API_ROUTES.getChallenge.query),
+  async (c) => {
+    const contentId = c.req.param("id");
+    const { address } = c.req.valid("query");
+
+    if (!(await contentStore.get(contentId))) {
+      return c.json(
+        { success: false, error: "Content not found", code: "NOT_FOUND" },
+        404
+      );
+    }
+
+    try {
+      const challenge = x402Server.createAccessChallenge(
+        address,
+        contentId,
+        clientIp(c)
+      );
+
+      return c.json({
+        success: true,
+        data: challenge,
+      } satisfies ApiResponse<AccessChallenge>);
+    } catch (error) {
+      // Too many outstanding challenges from this client or overall
+      if (error instanceof X402Error) {
+        return errorResponse(c, error);
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * Whether the address already holds access to the content
+ * The index doesn't track expiry, so subscriptions are checked on-chain
+ */
+async function ownsContent(
+  address: string,
+  content: ContentMetadata
+): Promise<boolean> {
+  return indexStore && !content.subscriptionPeriodMs
+    ? indexStore.hasPurchased(
+        normalizeSuiAddress(address),
+        normalizeSuiObjectId(content.id)
+      )
+    : x402Server.hasAccess(address, content.id);
+}
+
+/**
+ * Content as it's sold right now, for one request
+ * Creators change the price and delist on-chain first, so price, creator and
+ * delisting come from the index when it's on, else from chain
  */
-app.get("/content/:id", async (c) => {
-  const contentId = c.req.param("id");
+const listings = new WeakMap<
+  Request,
+  Promise<{ metadata: ContentMetadata; delisted: boolean }>
+>();
+
+function currentListing(c: Context, content: StoredContent) {
+  let listing = listings.get(c.req.raw);
+  if (!listing) {
+    listing = readListing(content);
+    listings.set(c.req.raw, listing);
+  }
+  return listing;
+}
+
+async function readListing(
+  content: StoredContent
+): Promise<{ metadata: ContentMetadata; delisted: boolean }> {
+  const metadata = toContentMetadata(content);
+  const live = indexStore
+    ? await indexStore.getContent(normalizeSuiObjectId(content.id))
+    : null;
+  if (live) {
+    return {
+      metadata: { ...metadata, price: live.price, creator: live.creator },
+      delisted: Boolean(content.delistedAt || live.delistedAt),
+    };
+  }
+
+  // Not indexed yet, or no indexer
+  const onChain = await x402Server.getContentDetails(content.id);
+  if (!onChain) {
+    // RPC trouble - the stored copy is the best we have
+    return { metadata, delisted: Boolean(content.delistedAt) };
+  }
+  return {
+    metadata: {
+      ...metadata,
+      price: onChain.price,
+      creator: onChain.creator,
+    },
+    delisted: Boolean(content.delistedAt) || onChain.delisted,
+  };
+}
+
+/**
+ * Checks that run before the paywall on GET /content/:id
+ */
+const contentGuard = createMiddleware(async (c, next) => {
+  const contentId = c.req.param("id")!;
   const userAddress = c.req.query("address");
 
-  const content = contentStore.get(contentId);
+  // Refuse before a payment settles, not after
+  if (
+    !PLAINTEXT_CONTENT &&
+    !c.req.header(CONTENT_KEY_HEADER) &&
+    (c.req.header(ACCESS_PROOF_HEADER) || c.req.header(PAYMENT_HEADER))
+  ) {
+    return c.json(
+      {
+        success: false,
+        error: `${CONTENT_KEY_HEADER} header required to receive content`,
+        code: "INVALID_REQUEST",
+      },
+      400
+    );
+  }
+
+  const content = await contentStore.get(contentId);
   if (!content) {
-    return c.json({ success: false, error: "Content not found" }, 404);
+    return c.json(
+      { success: false, error: "Content not found", code: "NOT_FOUND" },
+      404
+    );
+  }
+
+  if (PACKAGE_ID === "DEPLOY_AND_UPDATE_THIS") {
+    return c.json(
+      {
+        success: false,
+        error: "Package not deployed yet",
+        code: "NOT_CONFIGURED",
+      },
+      503
+    );
+  }
+
+  // Check if content has been created on-chain
+  if (content.id.startsWith("CONTENT_NOT_CREATED_")) {
+    return c.json(
+      {
+        success: false,
+        error:
+          "Content not yet created on-chain. Please create content objects first using createContent function or see setup instructions in README.",
+        code: "NOT_CONFIGURED",
+      },
+      503
+    );
   }
 
-  // Check if user has access (if address provided)
-  if (userAddress && PACKAGE_ID !== "DEPLOY_AND_UPDATE_THIS") {
+  // Don't sell the same content twice - owners must prove ownership instead
+  if (
+    userAddress &&
+    !c.req.header(ACCESS_PROOF_HEADER) &&
+    !c.req.header(PAYMENT_HEADER)
+  ) {
     try {
-      const hasAccess = await x402Server.hasAccess(userAddress, contentId);
-      if (hasAccess) {
-        // User has access - return the actual content
-        return c.json({
-          success: true,
-          data: {
-            id: content.id,
-            title: content.title,
-            content: content.actualContent,
+      if (await ownsContent(userAddress, content)) {
+        return c.json(
+          {
+            success: false,
+            error: `Access proof required: sign a challenge from /content/${contentId}/challenge`,
+            code: "ACCESS_DENIED",
           },
-        });
+          401
+        );
       }
     } catch (error) {
       console.error("Access check failed:", error);
     }
   }
 
-  // User doesn't have access - return 402 Payment Required
-  try {
-    if (!userAddress) {
-      return c.json({ success: false, error: "User address required" }, 400);
+  // Delisted content is only read by buyers, with an access proof
+  if (
+    !c.req.header(ACCESS_PROOF_HEADER) &&
+    (await currentListing(c, content)).delisted
+  ) {
+    return c.json(
+      {
+        success: false,
+        error: "Content has been delisted",
+        code: "NOT_FOUND",
+      },
+      404
+    );
+  }
+
+  await next();
+});
+
+/**
+ * GET /content/:id
+ * Request specific content
+ * The paywall returns content for a valid access proof or a settled
+ * X-PAYMENT header, or 402 if the user doesn't have access
+ * The encrypted blob comes back with its content key wrapped for the
+ * X-Content-Key public key, so plaintext never leaves the server
+ * (unless PLAINTEXT_CONTENT is set for legacy readers)
+ */
+app.get(
+  API_ROUTES.getContent.path,
+  contentGuard,
+  honoX402Paywall<Context>({
+    server: x402Server,
+    price: async (_request, c) => {
+      const content = await contentStore.get(c.req.param("id")!);
+      return content ? (await currentListing(c, content)).metadata : null;
+    },
+    clientIp: (_request, c) => clientIp(c),
+  }),
+  async (c) => {
+    const content = await contentStore.get(c.req.param("id"));
+    if (!content) {
+      return c.json(
+        { success: false, error: "Content not found", code: "NOT_FOUND" },
+        404
+      );
+    }
+
+    const publicKey = c.req.header(CONTENT_KEY_HEADER);
+    if (!publicKey && PLAINTEXT_CONTENT) {
+      return c.json({
+        success: true,
+        data: {
+          id: content.id,
+          title: content.title,
+          content: await vault.open(content),
+        },
+      } satisfies ApiResponse<ContentBody>);
     }
 
-    // Check if content has been created on-chain
-    if (content.id.startsWith("CONTENT_NOT_CREATED_")) {
+    try {
+      if (!publicKey) {
+        throw new X402Error(
+          "INVALID_REQUEST",
+          `${CONTENT_KEY_HEADER} header required to receive content`
+        );
+      }
+      const encrypted = await vault.release(content, publicKey);
+
+      return c.json({
+        success: true,
+        data: { id: content.id, title: content.title, encrypted },
+      } satisfies ApiResponse<ContentBody>);
+    } catch (error) {
+      // e.g. a malformed public key
+      if (error instanceof X402Error) {
+        return errorResponse(c, error);
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * Check a creator's signed change to stored content, and read its ContentItem
+ * Throws X402Error if the content, signature or on-chain object don't check out
+ */
+async function authorizeCreatorChange(
+  contentId: string,
+  change: Omit<ContentUpdate, "contentId" | "creator">,
+  signature: string
+): Promise<{ content: StoredContent; onChain: ContentItemDetails }> {
+  if (PACKAGE_ID === "DEPLOY_AND_UPDATE_THIS") {
+    throw new X402Error("NOT_CONFIGURED", "Package not deployed yet");
+  }
+
+  const content = await contentStore.get(contentId);
+  if (!content || content.delistedAt) {
+    throw new X402Error("NOT_FOUND", "Content not found");
+  }
+
+  if (Math.abs(Date.now() - change.issuedAt) > CREATOR_SIGNATURE_TTL_MS) {
+    throw new X402Error("UNAUTHORIZED", "Creator signature expired");
+  }
+
+  // Only the wallet that registered the content may change it
+  const message = await buildContentUpdateMessage({
+    ...change,
+    contentId: content.id,
+    creator: content.creator,
+  });
+  try {
+    await verifyPersonalMessageSignature(
+      new TextEncoder().encode(message),
+      signature,
+      { address: content.creator, client: suiClient }
+    );
+  } catch {
+    throw new X402Error("UNAUTHORIZED", "Invalid creator signature");
+  }
+
+  const onChain = await x402Server.getContentDetails(content.id);
+  if (!onChain) {
+    throw new X402Error("NOT_FOUND", "Content object not found on-chain");
+  }
+  if (onChain.objectType !== x402Server.getContentItemType()) {
+    throw new X402Error(
+      "INVALID_CONTENT",
+      `Object is not a content_access::ContentItem from package ${PACKAGE_ID}`
+    );
+  }
+
+  return { content, onChain };
+}
+
+/**
+ * PATCH /content/:id
+ * Sync a price or metadata change the creator already made on-chain
+ * Every field sent must match the ContentItem, and the price always follows it
+ */
+app.patch(
+  API_ROUTES.updateContent.path,
+  jsonBody(API_ROUTES.updateContent.body),
+  async (c) => {
+    try {
+      const { title, description, price, signature, issuedAt } =
+        c.req.valid("json");
+
+      if (
+        title === undefined &&
+        description === undefined &&
+        price === undefined
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Nothing to update: send a title, description or price",
+            code: "INVALID_REQUEST",
+          },
+          400
+        );
+      }
+
+      const { content, onChain } = await authorizeCreatorChange(
+        c.req.param("id"),
+        { action: "update", title, description, price, issuedAt },
+        signature
+      );
+
+      if (onChain.delisted) {
+        throw new X402Error(
+          "INVALID_CONTENT",
+          "ContentItem has been delisted, sync it with DELETE instead"
+        );
+      }
+
+      const mismatch = [
+        price !== undefined && price !== onChain.price && "Price",
+        title !== undefined && title !== onChain.title && "Title",
+        description !== undefined &&
+          description !== onChain.description &&
+          "Description",
+      ].find(Boolean);
+      if (mismatch) {
+        throw new X402Error(
+          "INVALID_CONTENT",
+          `${mismatch} does not match the on-chain ContentItem, update it on-chain first`
+        );
+      }
+
+      const updated = await contentStore.save({
+        id: content.id,
+        title: title ?? content.title,
+        description: description ?? content.description,
+        price: onChain.price,
+        contentUrl: content.contentUrl,
+        creator: onChain.creator,
+        coinType: onChain.coinType,
+        subscriptionPeriodMs: onChain.subscriptionPeriodMs,
+        recipients: onChain.recipients,
+        blobUri: content.blobUri,
+        contentKey: content.contentKey,
+      });
+
+      // Pick up the ContentUpdated event now rather than on the next poll
+      indexer
+        ?.sync()
+        .catch((error) => console.error("Event indexer sync failed:", error));
+
+      return c.json({
+        success: true,
+        data: toContentMetadata(updated),
+      } satisfies ApiResponse<ContentMetadata>);
+    } catch (error) {
+      if (error instanceof X402Error) {
+        return errorResponse(c, error);
+      }
+      console.error("Update content error:", error);
       return c.json(
         {
           success: false,
           error:
-            "Content not yet created on-chain. Please create content objects first using createContent function or see setup instructions in README.",
+            error instanceof Error ? error.message : "Failed to update content",
+          code: "INTERNAL_ERROR",
         },
-        503
+        500
       );
     }
+  }
+);
 
-    const x402Response = await x402Server.generateX402Response(
-      {
+/**
+ * DELETE /content/:id
+ * Stop selling content the creator delisted on-chain
+ * The content is kept, so buyers can still read it with an access proof
+ */
+app.delete(
+  API_ROUTES.delistContent.path,
+  jsonBody(API_ROUTES.delistContent.body),
+  async (c) => {
+    try {
+      const { signature, issuedAt } = c.req.valid("json");
+
+      const { content, onChain } = await authorizeCreatorChange(
+        c.req.param("id"),
+        { action: "delist", issuedAt },
+        signature
+      );
+
+      if (!onChain.delisted) {
+        throw new X402Error(
+          "INVALID_CONTENT",
+          "ContentItem is still listed, delist it on-chain first"
+        );
+      }
+
+      const delisted = await contentStore.save({
         id: content.id,
         title: content.title,
         description: content.description,
         price: content.price,
         contentUrl: content.contentUrl,
         creator: content.creator,
-      },
-      userAddress
-    );
+        coinType: content.coinType,
+        subscriptionPeriodMs: content.subscriptionPeriodMs,
+        recipients: content.recipients,
+        blobUri: content.blobUri,
+        contentKey: content.contentKey,
+        delistedAt: Date.now(),
+      });
 
-    return c.json(x402Response, 402);
-  } catch (error) {
-    console.error("Failed to generate x402 response:", error);
-    return c.json(
-      { success: false, error: "Failed to generate payment request" },
-      500
-    );
+      return c.json({
+        success: true,
+        data: { contentId: delisted.id, delistedAt: delisted.delistedAt! },
+      } satisfies ApiResponse<ContentDelistResult>);
+    } catch (error) {
+      if (error instanceof X402Error) {
+        return errorResponse(c, error);
+      }
+      console.error("Delist content error:", error);
+      return c.json(
+        {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to delist content",
+          code: "INTERNAL_ERROR",
+        },
+        500
+      );
+    }
   }
-});
+);
 
 /**
  * POST /content/:id/execute
- * Accept signed transaction, sponsor, and execute
+ * Accept signed transaction, sponsor (if enabled), and execute
+ * Without a sponsor key the buyer's single signature is submitted as-is
+ * Only bytes from an unexpired, unused 402 quote are accepted
+ * Retries (same bytes, or same Idempotency-Key) get the first result back
  */
-app.post("/content/:id/execute", async (c) => {
+app.post(
+  API_ROUTES.executePurchase.path,
+  jsonBody(API_ROUTES.executePurchase.body),
+  async (c) => {
+    const contentId = c.req.param("id");
+
+    try {
+      const body = c.req.valid("json");
+
+      // Validate, co-sign as sponsor when enabled, and execute
+      const result = await x402Server.executePurchase(
+        body.transactionBytes,
+        body.signature,
+        body.publicKey,
+        contentId,
+        {
+          ip: clientIp(c),
+          quoteId: body.quoteId,
+          idempotencyKey: c.req.header(IDEMPOTENCY_KEY_HEADER),
+        }
+      );
+
+      const explorer = `https://suiscan.xyz/${NETWORK}/tx/${result.digest}`;
+      const data = { digest: result.digest, status: result.status, explorer };
+
+      // Executed but failed on-chain, e.g. a Move abort
+      if (result.status !== "success") {
+        const failure =
+          (result.error && MoveAbortError.parse(result.error)) ||
+          new X402Error(
+            "TRANSACTION_FAILED",
+            result.error ?? "Transaction failed on-chain"
+          );
+        return errorResponse(c, failure, data);
+      }
+
+      // Pick up the new receipt without waiting for the next poll
+      indexer
+        ?.sync()
+        .catch((error) => console.error("Event indexer sync failed:", error));
+
+      return c.json({
+        success: true,
+        data,
+      } satisfies ApiResponse<ExecuteResult>);
+    } catch (error) {
+      // Rejections, stale quotes and sponsor limits map to their own statuses
+      if (error instanceof X402Error) {
+        return errorResponse(c, error);
+      }
+
+      console.error("Transaction execution failed:", error);
+      return c.json(
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Transaction execution failed",
+          code: "INTERNAL_ERROR",
+        },
+        500
+      );
+    }
+  }
+);
+
+/**
+ * 402 for a bundle, describing the cart without a PTB to sign
+ * With a payer, their PTB is in accepts[].extra, as the paywall does
+ */
+async function bundlePaymentRequired(
+  c: Context,
+  contents: ContentMetadata[],
+  error: string,
+  payer?: string
+) {
+  let body: PaymentRequiredResponse = {
+    x402Version: X402_VERSION,
+    error,
+    code: "PAYMENT_REQUIRED",
+    accepts: [],
+  };
   try {
-    const body = await c.req.json<SignedTransactionRequest>();
+    body.accepts = [
+      await x402Server.generateBundlePaymentRequirements(
+        contents,
+        c.req.url,
+        payer,
+        { ip: clientIp(c) }
+      ),
+    ];
+  } catch (caught) {
+    // Can't build the payer's PTB - still describe the price
+    if (
+      !(caught instanceof InsufficientBalanceError) &&
+      !(caught instanceof GasPoolExhaustedError) &&
+      !(caught instanceof SponsorPolicyError)
+    ) {
+      throw caught;
+    }
+    body = {
+      ...body,
+      error: caught.message,
+      code: caught.code,
+      accepts: [
+        await x402Server.generateBundlePaymentRequirements(contents, c.req.url),
+      ],
+    };
+  }
+
+  c.header(PAYMENT_REQUIRED_HEADER, encodePaymentRequiredHeader(body));
+  return c.json(body, 402);
+}
+
+/**
+ * GET /bundles?ids=a,b,c&address=
+ * A cart of content in one 402: a single PTB buying every item atomically
+ * Retry with its X-PAYMENT header to settle, like GET /content/:id
+ * Lifetime content only, all priced in one coin, none already owned
+ * Items are priced like GET /content/:id, from the index or chain
+ */
+app.get(
+  API_ROUTES.getBundle.path,
+  queryParams(API_ROUTES.getBundle.query),
+  async (c) => {
+    const { ids, address } = c.req.valid("query");
+    const contentIds = ids
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
 
-    if (!body.transactionBytes || !body.signature || !body.publicKey) {
-      return c.json({ success: false, error: "Missing required fields" }, 400);
+    if (PACKAGE_ID === "DEPLOY_AND_UPDATE_THIS") {
+      return c.json(
+        {
+          success: false,
+          error: "Package not deployed yet",
+          code: "NOT_CONFIGURED",
+        },
+        503
+      );
     }
 
-    // Sponsor and execute the transaction
-    const result = await x402Server.sponsorAndExecute(
-      body.transactionBytes,
-      body.signature,
-      body.publicKey
-    );
+    const contents: ContentMetadata[] = [];
+    for (const contentId of contentIds) {
+      const content = await contentStore.get(contentId);
+      const listing =
+        content && !content.id.startsWith("CONTENT_NOT_CREATED_")
+          ? await readListing(content)
+          : null;
+      if (!listing || listing.delisted) {
+        return c.json(
+          {
+            success: false,
+            error: `Content not found: ${contentId}`,
+            code: "NOT_FOUND",
+          },
+          404
+        );
+      }
+      contents.push(listing.metadata);
+    }
 
-    return c.json({
-      success: result.status === "success",
-      data: {
-        digest: result.digest,
-        status: result.status,
-        explorer: `https://suiscan.xyz/${NETWORK}/tx/${result.digest}`,
-      },
-    });
-  } catch (error) {
-    console.error("Transaction execution failed:", error);
-    return c.json(
-      {
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Transaction execution failed",
-      },
-      500
-    );
+    try {
+      const paymentHeader = c.req.header(PAYMENT_HEADER);
+      if (paymentHeader) {
+        const payment = decodePaymentHeader(paymentHeader);
+        if (!payment) {
+          return c.json(
+            {
+              success: false,
+              error: "Malformed X-PAYMENT header",
+              code: "INVALID_REQUEST",
+            },
+            400
+          );
+        }
+
+        const settlement = await x402Server.settlePayment(payment, contentIds, {
+          ip: clientIp(c),
+        });
+        c.header(
+          PAYMENT_RESPONSE_HEADER,
+          encodePaymentResponseHeader(settlement)
+        );
+        if (!settlement.success) {
+          return bundlePaymentRequired(
+            c,
+            contents,
+            settlement.errorReason || "Payment failed",
+            settlement.payer || undefined
+          );
+        }
+
+        // Pick up the new receipts without waiting for the next poll
+        indexer
+          ?.sync()
+          .catch((error) => console.error("Event indexer sync failed:", error));
+
+        return c.json({
+          success: true,
+          data: {
+            contentIds,
+            digest: settlement.transaction,
+            explorer: `https://suiscan.xyz/${NETWORK}/tx/${settlement.transaction}`,
+          },
+        } satisfies ApiResponse<BundlePurchase>);
+      }
+
+      if (!address) {
+        return bundlePaymentRequired(
+          c,
+          contents,
+          "address query parameter required to build the payment"
+        );
+      }
+
+      // Don't sell the same content twice - owned items leave the cart first
+      const owned = (
+        await Promise.all(
+          contents.map(async (content) =>
+            (await ownsContent(address, content)) ? content.title : null
+          )
+        )
+      ).filter((title) => title !== null);
+      if (owned.length > 0) {
+        return c.json(
+          {
+            success: false,
+            error: `Already owned: ${owned.join(", ")}`,
+            code: "ACCESS_DENIED",
+          },
+          401
+        );
+      }
+
+      let x402Response;
+      try {
+        x402Response = await x402Server.generateBundleX402Response(
+          contents,
+          address,
+          c.req.url,
+          { ip: clientIp(c) }
+        );
+      } catch (error) {
+        if (
+          !(error instanceof InsufficientBalanceError) &&
+          !(error instanceof GasPoolExhaustedError) &&
+          !(error instanceof SponsorPolicyError)
+        ) {
+          throw error;
+        }
+        return bundlePaymentRequired(c, contents, error.message);
+      }
+
+      c.header(
+        PAYMENT_REQUIRED_HEADER,
+        encodePaymentRequiredHeader(x402Response)
+      );
+      return c.json(x402Response, 402);
+    } catch (error) {
+      // e.g. a subscription in the cart, or items priced in different coins
+      if (error instanceof X402Error) {
+        return errorResponse(c, error);
+      }
+      throw error;
+    }
   }
-});
+);
 
 /**
  * GET /receipts/:address
  * Get all access receipts for an address
  */
-app.get("/receipts/:address", async (c) => {
+app.get(API_ROUTES.listReceipts.path, async (c) => {
   const address = c.req.param("address");
 
   if (PACKAGE_ID === "DEPLOY_AND_UPDATE_THIS") {
-    return c.json({ success: false, error: "Package not deployed yet" }, 503);
+    return c.json(
+      {
+        success: false,
+        error: "Package not deployed yet",
+        code: "NOT_CONFIGURED",
+      },
+      503
+    );
   }
 
   try {
-    const objects = await suiClient.getOwnedObjects({
-      owner: address,
-      filter: {
-        StructType: `${PACKAGE_ID}::content_access::AccessReceipt`,
-      },
-      options: { showContent: true },
-    });
+    // All pages, cached briefly per address and dropped after a purchase
+    const owned = await x402Server.getAccessReceipts(address);
 
-    const receipts = objects.data
-      .filter(
-        (obj) => obj.data?.content && obj.data.content.dataType === "moveObject"
-      )
-      .map((obj) => {
-        if (obj.data?.content?.dataType !== "moveObject") {
-          throw new Error("Invalid object type");
-        }
-        const fields = obj.data.content.fields as Record<string, unknown>;
-        return {
-          id: obj.data!.objectId,
-          contentId: String(fields.content_id),
-          contentTitle: Buffer.from(fields.content_title as number[]).toString(
-            "utf8"
-          ),
-          pricePaid: String(fields.price_paid),
-          timestamp: String(fields.timestamp),
-        };
-      });
+    // Receipts don't name their coin; the content store does, delisted or not
+    const coinTypes = new Map(
+      (
+        await contentStore.getMany(owned.map((receipt) => receipt.contentId))
+      ).map((content) => [content.id, content.coinType || SUI_TYPE_ARG])
+    );
+    const receipts = owned.map((receipt) => ({
+      ...receipt,
+      coinType: coinTypes.get(normalizeSuiObjectId(receipt.contentId)),
+    }));
 
-    return c.json({ success: true, data: receipts });
+    return c.json({
+      success: true,
+      data: receipts,
+    } satisfies ApiResponse<AccessReceiptData[]>);
   } catch (error) {
     console.error("Failed to fetch receipts:", error);
     return c.json(
@@ -362,12 +1272,68 @@ app.get("/receipts/:address", async (c) => {
         success: false,
         error:
           error instanceof Error ? error.message : "Failed to fetch receipts",
+        code: "INTERNAL_ERROR",
       },
       500
     );
   }
 });
 
+/**
+ * GET /creators/:address/stats
+ * Sales of a creator's content in an optional time range
+ * Built from indexed ContentPurchased events, so the indexer must be on
+ */
+app.get(
+  API_ROUTES.creatorStats.path,
+  queryParams(API_ROUTES.creatorStats.query),
+  async (c) => {
+    const { from, to } = c.req.valid("query");
+
+    if (!indexStore) {
+      return c.json(
+        {
+          success: false,
+          error: "Creator stats need the event indexer (INDEXER_ENABLED=true)",
+          code: "NOT_CONFIGURED",
+        },
+        503
+      );
+    }
+
+    const stats = await buildCreatorStats(
+      indexStore,
+      contentStore,
+      normalizeSuiAddress(c.req.param("address")),
+      {
+        from: from === undefined ? undefined : Number(from),
+        to: to === undefined ? undefined : Number(to),
+      }
+    );
+
+    return c.json({
+      success: true,
+      data: stats,
+    } satisfies ApiResponse<CreatorStats>);
+  }
+);
+
+app.onError((error, c) => {
+  // e.g. a malformed JSON body
+  if (error instanceof HTTPException && error.status < 500) {
+    return c.json(
+      { success: false, error: error.message, code: "INVALID_REQUEST" },
+      error.status
+    );
+  }
+
+  console.error("Unhandled error:", error);
+  return c.json(
+    { success: false, error: "Internal server error", code: "INTERNAL_ERROR" },
+    500
+  );
+});
+
 // ===== Server Start =====
 
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3001;
@@ -376,9 +1342,26 @@ console.log(`🚀 x402 Server starting on port ${port}`);
 console.log(`📦 Network: ${NETWORK}`);
 console.log(`🔗 RPC: ${RPC_URL}`);
 console.log(`📝 Package ID: ${PACKAGE_ID}`);
+console.log(`🗄️  Content store: ${CONTENT_STORE}`);
+console.log(`🔐 Blob store: ${BLOB_STORE}`);
+if (!CONTENT_KEY_SECRET) {
+  console.log(`⚠️  No CONTENT_KEY_SECRET - content keys last until restart`);
+}
+
+if (indexer) {
+  await indexer
+    .start()
+    .then(() => console.log(`📇 Event indexer caught up`))
+    .catch((error) => console.error("⚠️  Event indexer sync failed:", error));
+}
 
 if (sponsorKeypair) {
   console.log(`💰 Sponsor enabled: ${sponsorKeypair.toSuiAddress()}`);
+  console.log(`🛡️  Sponsor policy: per-tx, per-address, per-IP and daily caps`);
+  await gasPool
+    ?.start()
+    .then(() => console.log(`⛽ Gas pool ready`))
+    .catch((error) => console.error("⚠️  Gas pool setup failed:", error));
 } else {
   console.log(`⚠️  No sponsor key - users will pay their own gas`);
 }
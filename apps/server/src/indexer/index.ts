@@ -0,0 +1,44 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ContentStoreConfig } from "../content/index.js";
+import { InMemoryEventIndexStore } from "./memory.js";
+import { SqliteEventIndexStore } from "./sqlite.js";
+import type { EventIndexStore } from "./store.js";
+
+export type {
+  EventIndexStore,
+  IndexBatch,
+  IndexedContent,
+  IndexedContentUpdate,
+  IndexedDelisting,
+  IndexedPurchase,
+  IndexedRevenueSplit,
+  TimeRange,
+} from "./store.js";
+export { InMemoryEventIndexStore } from "./memory.js";
+export { SqliteEventIndexStore } from "./sqlite.js";
+export { MockEventSource } from "./mock.js";
+export { buildCreatorStats } from "./stats.js";
+export {
+  EventIndexer,
+  createEventIndexer,
+  type EventIndexerConfig,
+  type EventSource,
+} from "./indexer.js";
+
+/**
+ * Create the event index store, on the same backend as the content store
+ */
+export function createEventIndexStore(
+  config: ContentStoreConfig
+): EventIndexStore {
+  switch (config.backend) {
+    case "memory":
+      return new InMemoryEventIndexStore();
+    case "sqlite":
+      mkdirSync(dirname(config.databasePath), { recursive: true });
+      return new SqliteEventIndexStore(config.databasePath);
+    default:
+      throw new Error(`Unknown event index backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EventIndexer } from "./indexer.js";
+import { InMemoryEventIndexStore } from "./memory.js";
+import { MockEventSource } from "./mock.js";
+import { SqliteEventIndexStore } from "./sqlite.js";
+import type { EventIndexStore } from "./store.js";
+
+const PACKAGE_ID = `0x${"1".repeat(64)}`;
+const CREATOR = `0x${"a".repeat(64)}`;
+const BUYER = `0x${"b".repeat(64)}`;
+
+const contentId = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+const receiptId = (n: number) =>
+  `0x${(0x1000 + n).toString(16).padStart(64, "0")}`;
+
+function createContent(source: MockEventSource, n: number, price = "1000") {
+  return source.emit("ContentCreated", {
+    content_id: contentId(n),
+    title: Array.from(new TextEncoder().encode(`Item ${n}`)),
+    price,
+    creator: CREATOR,
+  });
+}
+
+function purchase(source: MockEventSource, n: number, content: number) {
+  return source.emit("ContentPurchased", {
+    receipt_id: receiptId(n),
+    content_id: contentId(content),
+    purchaser: BUYER,
+    price_paid: "1000",
+    timestamp: String(1_700_000_000_000 + n),
+  });
+}
+
+function indexer(source: MockEventSource, store: EventIndexStore) {
+  return new EventIndexer({
+    source,
+    store,
+    packageId: PACKAGE_ID,
+    pageSize: 2,
+  });
+}
+
+describe("EventIndexer", () => {
+  let source: MockEventSource;
+
+  beforeEach(() => {
+    source = new MockEventSource(PACKAGE_ID);
+  });
+
+  test("pages through every stream until hasNextPage is false", async () => {
+    const store = new InMemoryEventIndexStore();
+    for (let n = 1; n <= 5; n++) createContent(source, n);
+    purchase(source, 1, 1);
+    purchase(source, 2, 3);
+
+    await indexer(source, store).sync();
+
+    const contents = await store.listContent();
+    expect(contents.map((content) => content.title).sort()).toEqual([
+      "Item 1",
+      "Item 2",
+      "Item 3",
+      "Item 4",
+      "Item 5",
+    ]);
+    expect((await store.listPurchases(BUYER)).map((p) => p.contentId)).toEqual(
+      expect.arrayContaining([contentId(1), contentId(3)])
+    );
+    // Three pages of content, one of purchases, one empty page per other stream
+    expect(source.calls).toBe(3 + 1 + 4);
+    expect(await store.getCursor("ContentCreated")).toEqual({
+      txDigest: "mock-tx-5",
+      eventSeq: "0",
+    });
+  });
+
+  test("indexes updates and delistings onto the content", async () => {
+    const store = new InMemoryEventIndexStore();
+    createContent(source, 1);
+    source.emit("ContentUpdated", {
+      content_id: contentId(1),
+      title: Array.from(new TextEncoder().encode("Renamed")),
+      price: "2000",
+      creator: CREATOR,
+    });
+    source.emit("ContentDelisted", { content_id: contentId(1) }, 1234);
+
+    await indexer(source, store).sync();
+
+    expect(await store.getContent(contentId(1))).toMatchObject({
+      title: "Renamed",
+      price: "2000",
+      delistedAt: 1234,
+    });
+  });
+
+  test("counts each renewal as a sale of the same receipt", async () => {
+    const store = new InMemoryEventIndexStore();
+    createContent(source, 1);
+    purchase(source, 1, 1);
+    for (const n of [2, 3]) {
+      source.emit("SubscriptionRenewed", {
+        receipt_id: receiptId(1),
+        content_id: contentId(1),
+        purchaser: BUYER,
+        price_paid: "1000",
+        timestamp: String(1_700_000_000_000 + n),
+        expires_at: String(1_800_000_000_000 + n),
+      });
+    }
+
+    await indexer(source, store).sync();
+
+    const sales = await store.listSalesByCreator(CREATOR);
+    expect(sales.map((sale) => sale.txDigest)).toEqual([
+      "mock-tx-4",
+      "mock-tx-3",
+      "mock-tx-2",
+    ]);
+    expect(new Set(sales.map((sale) => sale.receiptId)).size).toBe(1);
+    // The buyer still holds one receipt
+    expect((await store.listPurchases(BUYER)).length).toBe(1);
+  });
+
+  test("polling again only reads events after the cursor", async () => {
+    const store = new InMemoryEventIndexStore();
+    const events = indexer(source, store);
+    createContent(source, 1);
+    await events.sync();
+
+    createContent(source, 2);
+    const before = source.calls;
+    await events.sync();
+
+    expect((await store.listContent()).length).toBe(2);
+    // One page for the new content, one empty page per other stream
+    expect(source.calls - before).toBe(6);
+  });
+
+  test("failNext aborts the sync and the next one catches up", async () => {
+    const store = new InMemoryEventIndexStore();
+    const events = indexer(source, store);
+    for (let n = 1; n <= 3; n++) createContent(source, n);
+
+    source.failNext();
+    await expect(events.sync()).rejects.toThrow("Mock RPC unavailable");
+    expect(await store.listContent()).toEqual([]);
+    expect(await store.getCursor("ContentCreated")).toBeNull();
+
+    await events.sync();
+    expect((await store.listContent()).length).toBe(3);
+  });
+
+  test("a failure mid-stream keeps the pages already applied", async () => {
+    const store = new InMemoryEventIndexStore();
+    const events = indexer(source, store);
+    for (let n = 1; n <= 3; n++) createContent(source, n);
+
+    // The first page of ContentCreated lands, the second call fails
+    const original = source.queryEvents.bind(source);
+    let pages = 0;
+    source.queryEvents = async (params) => {
+      if (++pages === 2) source.failNext(new Error("dropped"));
+      return original(params);
+    };
+
+    await expect(events.sync()).rejects.toThrow("dropped");
+    expect((await store.listContent()).length).toBe(2);
+    expect(await store.getCursor("ContentCreated")).toEqual({
+      txDigest: "mock-tx-2",
+      eventSeq: "0",
+    });
+
+    await events.sync();
+    expect((await store.listContent()).length).toBe(3);
+  });
+
+  describe("with a SQLite store", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "indexer-test-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("resumes from the saved cursor after a restart", async () => {
+      const path = join(dir, "content.db");
+      for (let n = 1; n <= 3; n++) createContent(source, n);
+      purchase(source, 1, 2);
+
+      const first = new SqliteEventIndexStore(path);
+      await indexer(source, first).sync();
+      await first.close();
+
+      createContent(source, 4);
+      purchase(source, 2, 4);
+
+      // A fresh indexer and store over the same file, as after a restart
+      const second = new SqliteEventIndexStore(path);
+      const seen: string[] = [];
+      const original = source.queryEvents.bind(source);
+      source.queryEvents = async (params) => {
+        const page = await original(params);
+        seen.push(...page.data.map((event) => event.id.txDigest));
+        return page;
+      };
+      await indexer(source, second).sync();
+
+      // Only the events emitted after the restart were read again
+      expect(seen).toEqual(["mock-tx-5", "mock-tx-6"]);
+      expect((await second.listContent()).length).toBe(4);
+      expect((await second.listPurchases(BUYER)).length).toBe(2);
+      await second.close();
+    });
+
+    test("replays nothing twice when a page is re-read", async () => {
+      const path = join(dir, "content.db");
+      createContent(source, 1);
+      purchase(source, 1, 1);
+
+      const store = new SqliteEventIndexStore(path);
+      await indexer(source, store).sync();
+      // Same events again, as if the cursor had not been saved
+      await store.applyBatch(
+        "ContentPurchased",
+        {
+          contents: [],
+          updates: [],
+          purchases: (await store.listPurchases(BUYER)).map((p) => ({ ...p })),
+          renewals: [],
+          splits: [],
+          delistings: [],
+        },
+        { txDigest: "mock-tx-2", eventSeq: "0" }
+      );
+
+      expect((await store.listPurchases(BUYER)).length).toBe(1);
+      await store.close();
+    });
+  });
+});
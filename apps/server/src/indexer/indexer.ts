@@ -0,0 +1,198 @@
+import type { EventId, SuiClient, SuiEvent } from "@mysten/sui/client";
+import { normalizeSuiAddress, normalizeSuiObjectId } from "@mysten/sui/utils";
+import type { EventIndexStore, IndexBatch } from "./store.js";
+
+/** The one RPC method the indexer needs - a SuiClient, or a mock */
+export type EventSource = Pick<SuiClient, "queryEvents">;
+
+export interface EventIndexerConfig {
+  source: EventSource;
+  store: EventIndexStore;
+  packageId: string;
+  contentModule?: string; // Default: 'content_access'
+  pollIntervalMs?: number; // Default: 5 seconds
+  pageSize?: number; // Events per queryEvents call, default: 50
+}
+
+// ContentCreated first, so updates and purchases of new content land after it
+const STREAMS = [
+  "ContentCreated",
+  "ContentUpdated",
+  "ContentPurchased",
+  "SubscriptionRenewed",
+  "RevenueSplitUpdated",
+  "ContentDelisted",
+] as const;
+
+type EventStream = (typeof STREAMS)[number];
+
+/**
+ * Event Indexer
+ * Follows ContentCreated, ContentUpdated, ContentPurchased,
+ * SubscriptionRenewed, RevenueSplitUpdated and ContentDelisted with
+ * queryEvents, saving a cursor
+ * per stream after every page so a restart resumes where it stopped
+ */
+export class EventIndexer {
+  private source: EventSource;
+  private store: EventIndexStore;
+  private packageId: string;
+  private moduleName: string;
+  private pollIntervalMs: number;
+  private pageSize: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private syncing?: Promise<void>;
+
+  constructor(config: EventIndexerConfig) {
+    this.source = config.source;
+    this.store = config.store;
+    this.packageId = config.packageId;
+    this.moduleName = config.contentModule ?? "content_access";
+    this.pollIntervalMs = config.pollIntervalMs ?? 5000;
+    this.pageSize = config.pageSize ?? 50;
+  }
+
+  /**
+   * Catch up from the saved cursors, then keep polling
+   */
+  async start(): Promise<void> {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.sync().catch((error) =>
+        console.error("Event indexer sync failed:", error)
+      );
+    }, this.pollIntervalMs);
+    // Don't keep the process alive just for polling
+    (this.timer as { unref?: () => void }).unref?.();
+
+    await this.sync();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Index every event after the saved cursors
+   * Concurrent calls share one run, e.g. a poll and a post-purchase sync
+   */
+  async sync(): Promise<void> {
+    this.syncing ??= this.syncStreams().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async syncStreams(): Promise<void> {
+    for (const stream of STREAMS) {
+      await this.syncStream(stream);
+    }
+  }
+
+  private async syncStream(stream: EventStream): Promise<void> {
+    let cursor = await this.store.getCursor(stream);
+
+    for (;;) {
+      const page = await this.source.queryEvents({
+        query: {
+          MoveEventType: `${this.packageId}::${this.moduleName}::${stream}`,
+        },
+        cursor,
+        limit: this.pageSize,
+        order: "ascending",
+      });
+
+      // Nothing new since the cursor
+      const next: EventId | null | undefined =
+        page.nextCursor ?? page.data.at(-1)?.id;
+      if (!next || page.data.length === 0) return;
+
+      await this.store.applyBatch(stream, this.decode(stream, page.data), next);
+      cursor = next;
+
+      if (!page.hasNextPage) return;
+    }
+  }
+
+  private decode(stream: EventStream, events: SuiEvent[]): IndexBatch {
+    const batch: IndexBatch = {
+      contents: [],
+      updates: [],
+      purchases: [],
+      renewals: [],
+      splits: [],
+      delistings: [],
+    };
+
+    for (const event of events) {
+      const fields = event.parsedJson as Record<string, unknown>;
+
+      if (stream === "ContentCreated") {
+        batch.contents.push({
+          id: normalizeSuiObjectId(String(fields.content_id)),
+          title: decodeBytes(fields.title),
+          price: String(fields.price),
+          creator: normalizeSuiAddress(String(fields.creator)),
+          createdAt: Number(event.timestampMs ?? Date.now()),
+          txDigest: event.id.txDigest,
+        });
+      } else if (stream === "ContentUpdated") {
+        batch.updates.push({
+          id: normalizeSuiObjectId(String(fields.content_id)),
+          title: decodeBytes(fields.title),
+          price: String(fields.price),
+          creator: normalizeSuiAddress(String(fields.creator)),
+          updatedAt: Number(event.timestampMs ?? Date.now()),
+          txDigest: event.id.txDigest,
+        });
+      } else if (stream === "ContentDelisted") {
+        batch.delistings.push({
+          id: normalizeSuiObjectId(String(fields.content_id)),
+          delistedAt: Number(event.timestampMs ?? Date.now()),
+          txDigest: event.id.txDigest,
+        });
+      } else if (stream === "RevenueSplitUpdated") {
+        const shares = fields.shares as { recipient: string; bps: string }[];
+        batch.splits.push({
+          contentId: normalizeSuiObjectId(String(fields.content_id)),
+          shares: shares.map((share) => ({
+            recipient: normalizeSuiAddress(share.recipient),
+            bps: Number(share.bps),
+          })),
+          updatedAt: Number(event.timestampMs ?? Date.now()),
+          txDigest: event.id.txDigest,
+        });
+      } else {
+        // A renewal pays for an existing receipt, with the same fields
+        const sales =
+          stream === "SubscriptionRenewed" ? batch.renewals : batch.purchases;
+        sales.push({
+          receiptId: normalizeSuiObjectId(String(fields.receipt_id)),
+          contentId: normalizeSuiObjectId(String(fields.content_id)),
+          purchaser: normalizeSuiAddress(String(fields.purchaser)),
+          pricePaid: String(fields.price_paid),
+          timestamp: Number(fields.timestamp),
+          txDigest: event.id.txDigest,
+        });
+      }
+    }
+    return batch;
+  }
+}
+
+/**
+ * vector<u8> fields come back from JSON-RPC as arrays of bytes
+ */
+function decodeBytes(value: unknown): string {
+  return Array.isArray(value)
+    ? new TextDecoder().decode(Uint8Array.from(value as number[]))
+    : String(value ?? "");
+}
+
+/**
+ * Factory function for easy initialization
+ */
+export function createEventIndexer(config: EventIndexerConfig): EventIndexer {
+  return new EventIndexer(config);
+}
@@ -0,0 +1,139 @@
+import type { EventId } from "@mysten/sui/client";
+import type {
+  EventIndexStore,
+  IndexBatch,
+  IndexedContent,
+  IndexedPurchase,
+  IndexedRevenueSplit,
+  TimeRange,
+} from "./store.js";
+
+/**
+ * In-memory event index
+ * Starts from the first event again on restart - use for local development
+ */
+export class InMemoryEventIndexStore implements EventIndexStore {
+  private cursors = new Map<string, EventId>();
+  private contents = new Map<string, IndexedContent>();
+  private purchases = new Map<string, IndexedPurchase>();
+  private renewals = new Map<string, IndexedPurchase>(); // By tx and receipt
+  private splits = new Map<string, IndexedRevenueSplit>(); // By tx and content
+  private delistings = new Map<string, number>(); // Content ID -> delisted at
+
+  async getCursor(stream: string): Promise<EventId | null> {
+    return this.cursors.get(stream) ?? null;
+  }
+
+  async applyBatch(
+    stream: string,
+    batch: IndexBatch,
+    cursor: EventId
+  ): Promise<void> {
+    for (const content of batch.contents) {
+      const indexed = this.contents.get(content.id);
+      // An update indexed first already holds the newer title and price
+      this.contents.set(
+        content.id,
+        indexed
+          ? {
+              ...indexed,
+              createdAt: content.createdAt,
+              txDigest: content.txDigest,
+            }
+          : content
+      );
+    }
+    for (const update of batch.updates) {
+      const indexed = this.contents.get(update.id);
+      // Until its ContentCreated is indexed, the update's time stands in
+      this.contents.set(update.id, {
+        id: update.id,
+        title: update.title,
+        price: update.price,
+        creator: update.creator,
+        createdAt: indexed?.createdAt ?? update.updatedAt,
+        txDigest: indexed?.txDigest ?? update.txDigest,
+      });
+    }
+    for (const purchase of batch.purchases) {
+      this.purchases.set(purchase.receiptId, purchase);
+    }
+    for (const renewal of batch.renewals) {
+      this.renewals.set(`${renewal.txDigest}:${renewal.receiptId}`, renewal);
+    }
+    for (const split of batch.splits) {
+      this.splits.set(`${split.txDigest}:${split.contentId}`, split);
+    }
+    // Kept apart from contents, as its ContentCreated may not be indexed yet
+    for (const delisting of batch.delistings) {
+      this.delistings.set(delisting.id, delisting.delistedAt);
+    }
+    this.cursors.set(stream, cursor);
+  }
+
+  async getContent(id: string): Promise<IndexedContent | null> {
+    const content = this.contents.get(id);
+    return content ? this.withDelisting(content) : null;
+  }
+
+  async listContent(): Promise<IndexedContent[]> {
+    return Array.from(this.contents.values())
+      .map((content) => this.withDelisting(content))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async hasPurchased(purchaser: string, contentId: string): Promise<boolean> {
+    for (const purchase of this.purchases.values()) {
+      if (
+        purchase.purchaser === purchaser &&
+        purchase.contentId === contentId
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async listPurchases(purchaser: string): Promise<IndexedPurchase[]> {
+    return Array.from(this.purchases.values())
+      .filter((purchase) => purchase.purchaser === purchaser)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async listContentByCreator(creator: string): Promise<IndexedContent[]> {
+    return (await this.listContent()).filter(
+      (content) => content.creator === creator
+    );
+  }
+
+  async listSalesByCreator(
+    creator: string,
+    range: TimeRange = {}
+  ): Promise<IndexedPurchase[]> {
+    return [...this.purchases.values(), ...this.renewals.values()]
+      .filter(
+        (purchase) =>
+          this.contents.get(purchase.contentId)?.creator === creator &&
+          purchase.timestamp >= (range.from ?? 0) &&
+          purchase.timestamp < (range.to ?? Infinity)
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async listRevenueSplitsByCreator(
+    creator: string
+  ): Promise<IndexedRevenueSplit[]> {
+    return Array.from(this.splits.values())
+      .filter(
+        (split) => this.contents.get(split.contentId)?.creator === creator
+      )
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+  }
+
+  async close(): Promise<void> {}
+
+  private withDelisting(content: IndexedContent): IndexedContent {
+    const delistedAt = this.delistings.get(content.id);
+    return delistedAt === undefined ? content : { ...content, delistedAt };
+  }
+}
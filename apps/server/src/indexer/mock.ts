@@ -0,0 +1,84 @@
+import type {
+  PaginatedEvents,
+  QueryEventsParams,
+  SuiEvent,
+} from "@mysten/sui/client";
+import type { EventSource } from "./indexer.js";
+
+/**
+ * Mock RPC for the event indexer
+ * Serves emitted events through queryEvents with the fullnode's paging rules
+ * (ascending, cursor exclusive), so the indexer runs without a network
+ */
+export class MockEventSource implements EventSource {
+  private events: SuiEvent[] = [];
+  private txCount = 0;
+  private failures: Error[] = [];
+  private packageId: string;
+  private moduleName: string;
+  calls = 0; // queryEvents calls so far
+
+  constructor(packageId: string, moduleName = "content_access") {
+    this.packageId = packageId;
+    this.moduleName = moduleName;
+  }
+
+  /**
+   * Emit a content_access event in a new transaction, returning it
+   */
+  emit(
+    name:
+      | "ContentCreated"
+      | "ContentUpdated"
+      | "ContentPurchased"
+      | "SubscriptionRenewed"
+      | "RevenueSplitUpdated"
+      | "ContentDelisted",
+    parsedJson: Record<string, unknown>,
+    timestampMs = Date.now()
+  ): SuiEvent {
+    const event: SuiEvent = {
+      id: { txDigest: `mock-tx-${++this.txCount}`, eventSeq: "0" },
+      packageId: this.packageId,
+      transactionModule: this.moduleName,
+      sender: String(parsedJson.creator ?? parsedJson.purchaser ?? "0x0"),
+      type: `${this.packageId}::${this.moduleName}::${name}`,
+      parsedJson,
+      timestampMs: String(timestampMs),
+      bcs: "",
+      bcsEncoding: "base64",
+    };
+    this.events.push(event);
+    return event;
+  }
+
+  /** Make the next queryEvents call reject, e.g. to simulate an outage */
+  failNext(error = new Error("Mock RPC unavailable")): void {
+    this.failures.push(error);
+  }
+
+  async queryEvents(params: QueryEventsParams): Promise<PaginatedEvents> {
+    this.calls++;
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    const { query, cursor, limit } = params;
+    const type = "MoveEventType" in query ? query.MoveEventType : undefined;
+    const matching = this.events.filter((event) => event.type === type);
+
+    const start = cursor
+      ? matching.findIndex(
+          (event) =>
+            event.id.txDigest === cursor.txDigest &&
+            event.id.eventSeq === cursor.eventSeq
+        ) + 1
+      : 0;
+    const data = matching.slice(start, start + (limit ?? 50));
+
+    return {
+      data,
+      hasNextPage: start + data.length < matching.length,
+      nextCursor: data.at(-1)?.id ?? cursor ?? null,
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import { Database } from "bun:sqlite";
+import type { EventId } from "@mysten/sui/client";
+import { migrate } from "../content/migrations.js";
+import type {
+  EventIndexStore,
+  IndexBatch,
+  IndexedContent,
+  IndexedPurchase,
+  IndexedRevenueSplit,
+  TimeRange,
+} from "./store.js";
+
+interface ContentRow {
+  id: string;
+  title: string;
+  price: string;
+  creator: string;
+  created_at: number;
+  tx_digest: string;
+  delisted_at: number | null;
+}
+
+interface PurchaseRow {
+  receipt_id: string;
+  content_id: string;
+  purchaser: string;
+  price_paid: string;
+  timestamp: number;
+  tx_digest: string;
+}
+
+interface RevenueSplitRow {
+  content_id: string;
+  shares: string; // JSON RevenueShare[]
+  updated_at: number;
+  tx_digest: string;
+}
+
+// Indexed content with its delisting, if any
+const CONTENT_COLUMNS = "c.*, d.delisted_at";
+const CONTENT_TABLES = `indexed_content c
+  LEFT JOIN indexed_delistings d ON d.content_id = c.id`;
+
+/**
+ * SQLite event index
+ * Shares the content database, so the cursors survive restarts
+ */
+export class SqliteEventIndexStore implements EventIndexStore {
+  private db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run("PRAGMA journal_mode = WAL");
+    migrate(this.db);
+  }
+
+  async getCursor(stream: string): Promise<EventId | null> {
+    const row = this.db
+      .query<
+        { tx_digest: string; event_seq: string },
+        [string]
+      >("SELECT tx_digest, event_seq FROM event_cursors WHERE stream = ?")
+      .get(stream);
+    return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+  }
+
+  async applyBatch(
+    stream: string,
+    batch: IndexBatch,
+    cursor: EventId
+  ): Promise<void> {
+    // Rows and cursor commit together, so a crash replays the whole page
+    this.db.transaction(() => {
+      // An update indexed first already holds the newer title and price
+      for (const content of batch.contents) {
+        this.db.run(
+          `INSERT INTO indexed_content (
+            id, title, price, creator, created_at, tx_digest
+          ) VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET
+            created_at = excluded.created_at,
+            tx_digest = excluded.tx_digest`,
+          [
+            content.id,
+            content.title,
+            content.price,
+            content.creator,
+            content.createdAt,
+            content.txDigest,
+          ]
+        );
+      }
+      // Until its ContentCreated is indexed, the update's time stands in
+      for (const update of batch.updates) {
+        this.db.run(
+          `INSERT INTO indexed_content (
+            id, title, price, creator, created_at, tx_digest
+          ) VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET
+            title = excluded.title,
+            price = excluded.price,
+            creator = excluded.creator`,
+          [
+            update.id,
+            update.title,
+            update.price,
+            update.creator,
+            update.updatedAt,
+            update.txDigest,
+          ]
+        );
+      }
+      for (const purchase of batch.purchases) {
+        this.db.run(
+          `INSERT OR REPLACE INTO indexed_purchases (
+            receipt_id, content_id, purchaser, price_paid, timestamp, tx_digest
+          ) VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            purchase.receiptId,
+            purchase.contentId,
+            purchase.purchaser,
+            purchase.pricePaid,
+            purchase.timestamp,
+            purchase.txDigest,
+          ]
+        );
+      }
+      for (const renewal of batch.renewals) {
+        this.db.run(
+          `INSERT OR REPLACE INTO indexed_renewals (
+            receipt_id, content_id, purchaser, price_paid, timestamp, tx_digest
+          ) VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            renewal.receiptId,
+            renewal.contentId,
+            renewal.purchaser,
+            renewal.pricePaid,
+            renewal.timestamp,
+            renewal.txDigest,
+          ]
+        );
+      }
+      for (const split of batch.splits) {
+        this.db.run(
+          `INSERT OR REPLACE INTO indexed_revenue_splits (
+            content_id, shares, updated_at, tx_digest
+          ) VALUES (?, ?, ?, ?)`,
+          [
+            split.contentId,
+            JSON.stringify(split.shares),
+            split.updatedAt,
+            split.txDigest,
+          ]
+        );
+      }
+      // Kept apart from contents, as its ContentCreated may not be indexed yet
+      for (const delisting of batch.delistings) {
+        this.db.run(
+          `INSERT OR IGNORE INTO indexed_delistings (
+            content_id, delisted_at, tx_digest
+          ) VALUES (?, ?, ?)`,
+          [delisting.id, delisting.delistedAt, delisting.txDigest]
+        );
+      }
+      this.db.run(
+        `INSERT INTO event_cursors (stream, tx_digest, event_seq, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (stream) DO UPDATE SET
+          tx_digest = excluded.tx_digest,
+          event_seq = excluded.event_seq,
+          updated_at = excluded.updated_at`,
+        [stream, cursor.txDigest, cursor.eventSeq, Date.now()]
+      );
+    })();
+  }
+
+  async getContent(id: string): Promise<IndexedContent | null> {
+    const row = this.db
+      .query<
+        ContentRow,
+        [string]
+      >(`SELECT ${CONTENT_COLUMNS} FROM ${CONTENT_TABLES} WHERE c.id = ?`)
+      .get(id);
+    return row ? this.toContent(row) : null;
+  }
+
+  async listContent(): Promise<IndexedContent[]> {
+    return this.db
+      .query<ContentRow, []>(
+        `SELECT ${CONTENT_COLUMNS} FROM ${CONTENT_TABLES} ORDER BY c.created_at`
+      )
+      .all()
+      .map((row) => this.toContent(row));
+  }
+
+  async hasPurchased(purchaser: string, contentId: string): Promise<boolean> {
+    const row = this.db
+      .query<{ found: number }, [string, string]>(
+        `SELECT 1 AS found FROM indexed_purchases
+        WHERE purchaser = ? AND content_id = ? LIMIT 1`
+      )
+      .get(purchaser, contentId);
+    return row !== null;
+  }
+
+  async listPurchases(purchaser: string): Promise<IndexedPurchase[]> {
+    return this.db
+      .query<PurchaseRow, [string]>(
+        "SELECT * FROM indexed_purchases WHERE purchaser = ? ORDER BY timestamp"
+      )
+      .all(purchaser)
+      .map((row) => this.toPurchase(row));
+  }
+
+  async listContentByCreator(creator: string): Promise<IndexedContent[]> {
+    return this.db
+      .query<ContentRow, [string]>(
+        `SELECT ${CONTENT_COLUMNS} FROM ${CONTENT_TABLES}
+        WHERE c.creator = ? ORDER BY c.created_at`
+      )
+      .all(creator)
+      .map((row) => this.toContent(row));
+  }
+
+  async listSalesByCreator(
+    creator: string,
+    range: TimeRange = {}
+  ): Promise<IndexedPurchase[]> {
+    return this.db
+      .query<PurchaseRow, [string, number, number]>(
+        `SELECT p.* FROM (
+          SELECT * FROM indexed_purchases
+          UNION ALL SELECT * FROM indexed_renewals
+        ) p
+        JOIN indexed_content c ON c.id = p.content_id
+        WHERE c.creator = ? AND p.timestamp >= ? AND p.timestamp < ?
+        ORDER BY p.timestamp DESC`
+      )
+      .all(creator, range.from ?? 0, range.to ?? Number.MAX_SAFE_INTEGER)
+      .map((row) => this.toPurchase(row));
+  }
+
+  async listRevenueSplitsByCreator(
+    creator: string
+  ): Promise<IndexedRevenueSplit[]> {
+    return this.db
+      .query<RevenueSplitRow, [string]>(
+        `SELECT s.* FROM indexed_revenue_splits s
+        JOIN indexed_content c ON c.id = s.content_id
+        WHERE c.creator = ?
+        ORDER BY s.updated_at`
+      )
+      .all(creator)
+      .map((row) => ({
+        contentId: row.content_id,
+        shares: JSON.parse(row.shares),
+        updatedAt: row.updated_at,
+        txDigest: row.tx_digest,
+      }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private toPurchase(row: PurchaseRow): IndexedPurchase {
+    return {
+      receiptId: row.receipt_id,
+      contentId: row.content_id,
+      purchaser: row.purchaser,
+      pricePaid: row.price_paid,
+      timestamp: row.timestamp,
+      txDigest: row.tx_digest,
+    };
+  }
+
+  private toContent(row: ContentRow): IndexedContent {
+    return {
+      id: row.id,
+      title: row.title,
+      price: row.price,
+      creator: row.creator,
+      createdAt: row.created_at,
+      txDigest: row.tx_digest,
+      delistedAt: row.delisted_at ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { normalizeStructTag, SUI_TYPE_ARG } from "@mysten/sui/utils";
+import { splitRevenue } from "@atomic402/sui-sdk";
+import type { CreatorItemStats, CreatorStats } from "@repo/shared";
+import type { ContentRepository } from "../content/index.js";
+import type {
+  EventIndexStore,
+  IndexedPurchase,
+  IndexedRevenueSplit,
+  TimeRange,
+} from "./store.js";
+
+const RECENT_BUYERS = 5;
+
+/**
+ * Sales of a creator's indexed content in a time range
+ * Coin types come from the content store; unregistered items count as SUI
+ * Revenue is the creator's share, net of any revenue split
+ */
+export async function buildCreatorStats(
+  index: EventIndexStore,
+  contentStore: ContentRepository,
+  creator: string,
+  range: TimeRange = {}
+): Promise<CreatorStats> {
+  const [contents, purchases, splits] = await Promise.all([
+    index.listContentByCreator(creator),
+    index.listSalesByCreator(creator, range),
+    index.listRevenueSplitsByCreator(creator),
+  ]);
+
+  const coinTypes = new Map(
+    (await contentStore.getMany(contents.map((content) => content.id))).map(
+      (registered) => [registered.id, registered.coinType]
+    )
+  );
+
+  const items = new Map<string, CreatorItemStats>();
+  for (const content of contents) {
+    items.set(content.id, {
+      contentId: content.id,
+      title: content.title,
+      price: content.price,
+      coinType: coinTypes.get(content.id) || SUI_TYPE_ARG,
+      sales: 0,
+      revenue: "0",
+      recentBuyers: [],
+    });
+  }
+
+  // Purchases are newest first, so the first buyers seen are the most recent
+  for (const purchase of purchases) {
+    const item = items.get(purchase.contentId);
+    if (!item) continue;
+
+    item.sales++;
+    item.revenue = (
+      BigInt(item.revenue) + BigInt(creatorShare(purchase, creator, splits))
+    ).toString();
+    if (
+      item.recentBuyers.length < RECENT_BUYERS &&
+      !item.recentBuyers.includes(purchase.purchaser)
+    ) {
+      item.recentBuyers.push(purchase.purchaser);
+    }
+  }
+
+  const isSui = (coinType: string) =>
+    normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG);
+
+  return {
+    creator,
+    from: range.from,
+    to: range.to,
+    totalSales: purchases.length,
+    totalRevenue: Array.from(items.values())
+      .filter((item) => isSui(item.coinType))
+      .reduce((total, item) => total + BigInt(item.revenue), 0n)
+      .toString(),
+    items: Array.from(items.values()),
+    sales: purchases.map((purchase) => ({
+      receiptId: purchase.receiptId,
+      contentId: purchase.contentId,
+      contentTitle: items.get(purchase.contentId)?.title ?? "",
+      buyer: purchase.purchaser,
+      pricePaid: purchase.pricePaid,
+      timestamp: purchase.timestamp,
+      txDigest: purchase.txDigest,
+    })),
+  };
+}
+
+/**
+ * What the creator kept of a purchase, under the split in force at the time
+ */
+function creatorShare(
+  purchase: IndexedPurchase,
+  creator: string,
+  splits: IndexedRevenueSplit[]
+): string {
+  const split = splits
+    .filter(
+      (split) =>
+        split.contentId === purchase.contentId &&
+        split.updatedAt <= purchase.timestamp
+    )
+    .at(-1);
+  return split
+    ? splitRevenue(purchase.pricePaid, creator, split.shares).at(-1)!.amount
+    : purchase.pricePaid;
+}
@@ -0,0 +1,87 @@
+import type { EventId } from "@mysten/sui/client";
+import type { RevenueShare } from "@atomic402/sui-sdk";
+
+/** A ContentItem seen in a ContentCreated event */
+export interface IndexedContent {
+  id: string;
+  title: string;
+  price: string; // Amount in MIST
+  creator: string;
+  createdAt: number; // Unix ms, from the event's checkpoint
+  txDigest: string;
+  delistedAt?: number; // Set once a ContentDelisted event is indexed
+}
+
+/** A creator's new title and price, from a ContentUpdated event */
+export interface IndexedContentUpdate {
+  id: string;
+  title: string;
+  price: string; // Amount in MIST
+  creator: string;
+  updatedAt: number; // Unix ms, from the event's checkpoint
+  txDigest: string;
+}
+
+/** An AccessReceipt minted by a ContentPurchased event */
+export interface IndexedPurchase {
+  receiptId: string;
+  contentId: string;
+  purchaser: string;
+  pricePaid: string; // Amount in MIST
+  timestamp: number; // Unix ms, from the on-chain clock
+  txDigest: string;
+}
+
+/** A creator's new revenue split, from a RevenueSplitUpdated event */
+export interface IndexedRevenueSplit {
+  contentId: string;
+  shares: RevenueShare[]; // Empty once the split is removed
+  updatedAt: number; // Unix ms, from the event's checkpoint
+  txDigest: string;
+}
+
+/** Content its creator took off sale, from a ContentDelisted event */
+export interface IndexedDelisting {
+  id: string;
+  delistedAt: number; // Unix ms, from the event's checkpoint
+  txDigest: string;
+}
+
+/** Unix ms bounds, from inclusive and to exclusive */
+export interface TimeRange {
+  from?: number;
+  to?: number;
+}
+
+/** Rows decoded from one page of events */
+export interface IndexBatch {
+  contents: IndexedContent[];
+  updates: IndexedContentUpdate[];
+  purchases: IndexedPurchase[];
+  renewals: IndexedPurchase[]; // SubscriptionRenewed, paying for a receipt again
+  splits: IndexedRevenueSplit[];
+  delistings: IndexedDelisting[];
+}
+
+/**
+ * Event Index Store
+ * Local table of indexed content and purchases, with one cursor per event stream
+ */
+export interface EventIndexStore {
+  getCursor(stream: string): Promise<EventId | null>;
+  /** Apply a page of events and advance the stream's cursor in one step */
+  applyBatch(stream: string, batch: IndexBatch, cursor: EventId): Promise<void>;
+  getContent(id: string): Promise<IndexedContent | null>;
+  listContent(): Promise<IndexedContent[]>;
+  hasPurchased(purchaser: string, contentId: string): Promise<boolean>;
+  listPurchases(purchaser: string): Promise<IndexedPurchase[]>;
+  listContentByCreator(creator: string): Promise<IndexedContent[]>;
+  /** Purchases and renewals of a creator's content in the range, newest first */
+  listSalesByCreator(
+    creator: string,
+    range?: TimeRange
+  ): Promise<IndexedPurchase[]>;
+  /** Every split set on a creator's content, oldest first */
+  listRevenueSplitsByCreator(creator: string): Promise<IndexedRevenueSplit[]>;
+  close(): Promise<void>;
+}
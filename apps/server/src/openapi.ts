@@ -0,0 +1,175 @@
+import type * as v from "valibot";
+import {
+  API_ROUTES,
+  ApiEnvelopeSchema,
+  X402ErrorBodySchema,
+  type ApiRoute,
+} from "@repo/shared";
+
+type JsonSchema = Record<string, unknown>;
+
+/** Valibot schema, as walked at runtime */
+interface SchemaNode {
+  type: string;
+  entries?: Record<string, SchemaNode>;
+  wrapped?: SchemaNode;
+  item?: SchemaNode;
+  options?: unknown[];
+  literal?: unknown;
+  pipe?: { type: string; requirement?: unknown }[];
+}
+
+/**
+ * Convert a valibot schema to JSON Schema
+ * Covers the schema and pipe types used by the API schemas
+ */
+export function toJsonSchema(schema: v.GenericSchema): JsonSchema {
+  return walk(schema as unknown as SchemaNode);
+}
+
+function walk(node: SchemaNode): JsonSchema {
+  const json = convert(node);
+
+  for (const action of node.pipe ?? []) {
+    if (action.type === "regex" && action.requirement instanceof RegExp) {
+      json.pattern = action.requirement.source;
+    } else if (action.type === "non_empty") {
+      json.minLength = 1;
+    }
+  }
+  return json;
+}
+
+function convert(node: SchemaNode): JsonSchema {
+  switch (node.type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return { type: node.type };
+    case "literal":
+      return { const: node.literal };
+    case "picklist":
+      return { enum: node.options };
+    case "array":
+      return { type: "array", items: walk(node.item!) };
+    case "optional":
+      return walk(node.wrapped!);
+    case "object": {
+      const entries = Object.entries(node.entries ?? {});
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          entries.map(([key, entry]) => [key, walk(entry)])
+        ),
+        required: entries
+          .filter(([, entry]) => entry.type !== "optional")
+          .map(([key]) => key),
+      };
+    }
+    default:
+      return {}; // any / unknown
+  }
+}
+
+/**
+ * Success envelope with `data` of the given schema
+ */
+function envelope(data: v.GenericSchema): JsonSchema {
+  const json = toJsonSchema(ApiEnvelopeSchema);
+  return {
+    ...json,
+    properties: {
+      ...(json.properties as JsonSchema),
+      data: toJsonSchema(data),
+    },
+  };
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { "application/json": { schema } };
+}
+
+function toOperation(name: string, route: ApiRoute) {
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(([, param]) => ({
+    name: param,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+  const query = route.query ? toJsonSchema(route.query) : null;
+  const queryParams = Object.entries(
+    (query?.properties ?? {}) as Record<string, JsonSchema>
+  ).map(([param, schema]) => ({
+    name: param,
+    in: "query",
+    required: (query?.required as string[]).includes(param),
+    schema,
+  }));
+
+  const headerParams = Object.entries(route.headers ?? {}).map(
+    ([header, description]) => ({
+      name: header,
+      in: "header",
+      required: false,
+      description,
+      schema: { type: "string" },
+    })
+  );
+
+  const responses: Record<string, unknown> = {
+    200: {
+      description: "Success",
+      content: jsonContent(envelope(route.response)),
+    },
+    default: {
+      description: "Error, with a stable `code`",
+      content: jsonContent(toJsonSchema(X402ErrorBodySchema)),
+    },
+  };
+  if (route.paymentRequired) {
+    responses[402] = {
+      description: "Payment required, with a PTB to sign",
+      content: jsonContent(toJsonSchema(route.paymentRequired)),
+    };
+  }
+
+  return {
+    operationId: name,
+    summary: route.summary,
+    parameters: [...pathParams, ...queryParams, ...headerParams],
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: jsonContent(toJsonSchema(route.body)),
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * OpenAPI 3.1 document for every route in API_ROUTES
+ */
+export function buildOpenApiDocument(info: {
+  title: string;
+  version: string;
+  serverUrl?: string;
+}) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [name, route] of Object.entries(API_ROUTES) as [
+    string,
+    ApiRoute,
+  ][]) {
+    // Hono ':id' segments become OpenAPI '{id}'
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [route.method]: toOperation(name, route) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: info.title, version: info.version },
+    ...(info.serverUrl && { servers: [{ url: info.serverUrl }] }),
+    paths,
+  };
+}
@@ -0,0 +1,35 @@
+import { validator } from "hono/validator";
+import * as v from "valibot";
+import { describeIssues } from "@repo/shared";
+
+/**
+ * Validate part of the request against a schema, read it with c.req.valid()
+ * Invalid input gets a 400 INVALID_REQUEST naming the first bad field
+ */
+function validated<
+  TTarget extends "json" | "query",
+  TSchema extends v.GenericSchema,
+>(target: TTarget, schema: TSchema) {
+  return validator(target, (value, c) => {
+    const result = v.safeParse(schema, value);
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: describeIssues(result.issues),
+          code: "INVALID_REQUEST",
+        },
+        400
+      );
+    }
+    return result.output as v.InferOutput<TSchema>;
+  });
+}
+
+export function jsonBody<TSchema extends v.GenericSchema>(schema: TSchema) {
+  return validated("json", schema);
+}
+
+export function queryParams<TSchema extends v.GenericSchema>(schema: TSchema) {
+  return validated("query", schema);
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, ShoppingCart, X } from "lucide-react";
+import type { ContentMetadata } from "@repo/shared/types";
+import { Button } from "./ui/button";
+import { CoinAmount } from "./CoinAmount";
+
+interface CartBarProps {
+  items: ContentMetadata[]; // All priced in one coin
+  onRemove: (contentId: string) => void;
+  onClear: () => void;
+  onCheckout: () => Promise<void>;
+}
+
+/**
+ * Bottom bar for the cart: what's in it, the total, and one checkout
+ */
+export function CartBar({
+  items,
+  onRemove,
+  onClear,
+  onCheckout,
+}: CartBarProps) {
+  const [loading, setLoading] = useState(false);
+
+  const total = items.reduce((sum, item) => sum + BigInt(item.price), 0n);
+
+  if (items.length === 0) return null;
+
+  const handleCheckout = async () => {
+    setLoading(true);
+    try {
+      await onCheckout();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-10 border-t bg-white/95 backdrop-blur">
+      <div className="container mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+        <ShoppingCart className="w-5 h-5 text-blue-600" />
+        <div className="flex flex-1 flex-wrap gap-2">
+          {items.map((item) => (
+            <span
+              key={item.id}
+              className="inline-flex items-center gap-1 text-xs bg-blue-50 text-blue-800 px-2 py-1 rounded-full"
+            >
+              {item.title}
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                disabled={loading}
+                aria-label={`Remove ${item.title} from cart`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <span className="font-bold text-blue-600">
+          <CoinAmount amount={total.toString()} coinType={items[0]?.coinType} />
+        </span>
+        <Button variant="outline" onClick={onClear} disabled={loading}>
+          Clear
+        </Button>
+        <Button onClick={handleCheckout} disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Processing...
+            </>
+          ) : (
+            `Checkout ${items.length} item${items.length === 1 ? "" : "s"}`
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useCoinFormat } from "../lib/coins";
+
+interface CoinAmountProps {
+  amount: string; // In the coin's base units
+  coinType?: string | null; // Default: SUI, null when unknown
+}
+
+/**
+ * An amount with its coin's decimals and symbol, "…" until they load
+ * With no known coin, the raw base units rather than a guess at SUI
+ */
+export function CoinAmount({ amount, coinType }: CoinAmountProps) {
+  const { symbol, format } = useCoinFormat(coinType ?? undefined);
+  const formatted = format(amount);
+
+  if (coinType === null) {
+    return <>{amount} base units</>;
+  }
+
+  return formatted === null ? (
+    <span className="text-muted-foreground">…</span>
+  ) : (
+    <>
+      {formatted} {symbol}
+    </>
+  );
+}
@@ -10,31 +10,52 @@ import {
   CardTitle,
 } from "./ui/card";
 import { Button } from "./ui/button";
-import { Lock, Unlock, Loader2, ExternalLink } from "lucide-react";
+import {
+  Lock,
+  Unlock,
+  Loader2,
+  ExternalLink,
+  RefreshCw,
+  ShoppingCart,
+} from "lucide-react";
 import type { ContentMetadata } from "@repo/shared/types";
 import {
   useCurrentAccount,
   useSignTransaction,
   useSuiClient,
 } from "@mysten/dapp-kit";
+import { toast } from "sonner";
+import { errorMessage } from "../lib/errors";
+import { useReadContent } from "../lib/reader";
+import { CoinAmount } from "./CoinAmount";
+import { Markdown } from "./Markdown";
 
 interface ContentCardProps {
   content: ContentMetadata;
   hasAccess?: boolean;
+  lapsed?: boolean; // Subscription expired - paying again renews it
+  receiptId?: string; // Named in the access proof, when known
+  expiresAt?: number; // Subscription end, Unix ms
+  inCart?: boolean;
   onPurchase: (contentId: string) => Promise<void>;
+  onToggleCart?: (contentId: string) => void; // Lifetime content only
 }
 
 export function ContentCard({
   content,
   hasAccess,
+  lapsed,
+  receiptId,
+  expiresAt,
+  inCart,
   onPurchase,
+  onToggleCart,
 }: ContentCardProps) {
   const [loading, setLoading] = useState(false);
   const [viewing, setViewing] = useState(false);
   const [actualContent, setActualContent] = useState<string | null>(null);
   const account = useCurrentAccount();
-
-  const priceInSui = (parseInt(content.price) / 1_000_000_000).toFixed(2);
+  const readContent = useReadContent();
 
   const handlePurchase = async () => {
     setLoading(true);
@@ -42,7 +63,7 @@ export function ContentCard({
       await onPurchase(content.id);
     } catch (error) {
       console.error("Purchase failed:", error);
-      alert("Purchase failed: " + (error as Error).message);
+      toast.error(errorMessage(error, "Purchase failed"));
     } finally {
       setLoading(false);
     }
@@ -53,17 +74,12 @@ export function ContentCard({
 
     setLoading(true);
     try {
-      const response = await fetch(
-        `http://localhost:3001/content/${content.id}?address=${account.address}`
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        setActualContent(data.data.content);
-        setViewing(true);
-      }
+      const result = await readContent(content.id, receiptId);
+      setActualContent(result.content);
+      setViewing(true);
     } catch (error) {
       console.error("Failed to fetch content:", error);
+      toast.error(errorMessage(error, "Failed to load content"));
     } finally {
       setLoading(false);
     }
@@ -88,9 +104,7 @@ export function ContentCard({
           </div>
         </CardHeader>
         <CardContent>
-          <div className="prose prose-sm max-w-none whitespace-pre-wrap">
-            {actualContent}
-          </div>
+          <Markdown>{actualContent}</Markdown>
         </CardContent>
       </Card>
     );
@@ -108,11 +122,15 @@ export function ContentCard({
             )}
             <CardTitle className="text-xl">{content.title}</CardTitle>
           </div>
-          {hasAccess && (
+          {hasAccess ? (
             <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
-              Owned
+              {expiresAt === undefined ? "Owned" : "Subscribed"}
             </span>
-          )}
+          ) : lapsed ? (
+            <span className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full">
+              Expired
+            </span>
+          ) : null}
         </div>
         <CardDescription>{content.description}</CardDescription>
       </CardHeader>
@@ -120,11 +138,17 @@ export function ContentCard({
         <div className="flex items-center justify-between text-sm">
           <span className="text-muted-foreground">Price</span>
           <span className="text-2xl font-bold text-blue-600">
-            {priceInSui} SUI
+            <CoinAmount amount={content.price} coinType={content.coinType} />
           </span>
         </div>
+        {expiresAt !== undefined && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            {lapsed ? "Access ended" : "Access until"}{" "}
+            {new Date(expiresAt).toLocaleDateString()}
+          </p>
+        )}
       </CardContent>
-      <CardFooter>
+      <CardFooter className="gap-2">
         {!account ? (
           <Button disabled className="w-full">
             Connect Wallet to Purchase
@@ -156,11 +180,31 @@ export function ContentCard({
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Processing...
               </>
+            ) : lapsed ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Renew
+              </>
             ) : (
               "Purchase Access"
             )}
           </Button>
         )}
+        {account &&
+          !hasAccess &&
+          onToggleCart &&
+          !content.subscriptionPeriodMs && (
+            <Button
+              onClick={() => onToggleCart(content.id)}
+              disabled={loading}
+              variant={inCart ? "secondary" : "outline"}
+              size="icon"
+              aria-label={inCart ? "Remove from cart" : "Add to cart"}
+              title={inCart ? "Remove from cart" : "Add to cart"}
+            >
+              <ShoppingCart className={inCart ? "text-blue-600" : undefined} />
+            </Button>
+          )}
       </CardFooter>
     </Card>
   );
@@ -29,7 +29,9 @@ export function Header() {
 
   const navLinks = [
     { href: "/", label: "Access" },
+    { href: "/library", label: "Library" },
     { href: "/create", label: "Create" },
+    { href: "/creator", label: "Earnings" },
   ];
 
   return (
@@ -52,7 +54,8 @@ export function Header() {
                   key={link.href}
                   href={link.href}
                   className={`text-sm font-medium transition-colors hover:text-blue-600 ${
-                    pathname === link.href
+                    pathname === link.href ||
+                    (link.href !== "/" && pathname.startsWith(`${link.href}/`))
                       ? "text-blue-600 border-b-2 border-blue-600 pb-1"
                       : "text-gray-600"
                   }`}
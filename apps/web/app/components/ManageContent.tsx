@@ -0,0 +1,348 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSignPersonalMessage,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  addDelistCall,
+  addUpdateMetadataCall,
+  addUpdatePriceCall,
+} from "@atomic402/sui-sdk/creator";
+import type { ContentMetadata } from "@repo/shared/types";
+import { buildContentUpdateMessage } from "@repo/shared/utils";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { CoinAmount } from "./CoinAmount";
+import { api } from "../lib/api";
+import { useCoinFormat } from "../lib/coins";
+import { errorMessage } from "../lib/errors";
+import { formatUnits, parseUnits } from "../lib/format";
+
+const CONTENT_MODULE = { packageId: process.env.NEXT_PUBLIC_PACKAGE_ID || "" };
+
+interface EditForm {
+  title: string;
+  description: string;
+  price?: string; // In whole coins, unset until the creator changes it
+}
+
+/**
+ * The connected creator's listed content, with edit and delist controls
+ * Changes are made on-chain first, then synced to the server with a signature
+ */
+export function ManageContent() {
+  const account = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const queryClient = useQueryClient();
+  const { mutateAsync: signAndExecuteTransaction } =
+    useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<EditForm>({
+    title: "",
+    description: "",
+  });
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data: contents = [], isLoading } = useQuery({
+    queryKey: ["contents"],
+    queryFn: () => api.listContent(),
+  });
+
+  const owned = account
+    ? contents.filter(
+        (content) =>
+          normalizeSuiAddress(content.creator) ===
+          normalizeSuiAddress(account.address)
+      )
+    : [];
+
+  // Prices are edited in whole coins of the item's own coin
+  const editingContent = owned.find((content) => content.id === editing);
+  const { symbol, decimals } = useCoinFormat(editingContent?.coinType);
+  const displayPrice =
+    form.price ??
+    (editingContent && decimals !== undefined
+      ? formatUnits(editingContent.price, decimals)
+      : "");
+
+  /** Sign and execute, failing on a Move abort */
+  const execute = async (tx: Transaction) => {
+    // Serialized, since dapp-kit bundles its own copy of Transaction
+    tx.setSender(account!.address);
+    const { digest } = await signAndExecuteTransaction({
+      transaction: await tx.toJSON(),
+    });
+    const result = await suiClient.waitForTransaction({
+      digest,
+      options: { showEffects: true },
+    });
+    if (result.effects?.status.status !== "success") {
+      throw new Error(result.effects?.status.error ?? "Transaction failed");
+    }
+  };
+
+  const startEdit = (content: ContentMetadata) => {
+    setEditing(content.id);
+    setForm({ title: content.title, description: content.description });
+  };
+
+  const handleSave = async (content: ContentMetadata) => {
+    if (!account) return;
+
+    if (decimals === undefined) return;
+
+    const newPrice =
+      form.price === undefined
+        ? content.price
+        : parseUnits(form.price, decimals);
+    if (!form.title || !form.description || !newPrice || newPrice === "0") {
+      toast.error("Please fill in a title, description and valid price");
+      return;
+    }
+
+    const priceChanged = newPrice !== content.price;
+    const metadataChanged =
+      form.title !== content.title || form.description !== content.description;
+    if (!priceChanged && !metadataChanged) {
+      setEditing(null);
+      return;
+    }
+
+    setBusy(content.id);
+    const toastId = toast.loading("Waiting for wallet signature...");
+
+    try {
+      const tx = new Transaction();
+      if (priceChanged) {
+        addUpdatePriceCall(tx, CONTENT_MODULE, content.id, newPrice);
+      }
+      if (metadataChanged) {
+        addUpdateMetadataCall(
+          tx,
+          CONTENT_MODULE,
+          content.id,
+          form.title,
+          form.description
+        );
+      }
+      await execute(tx);
+
+      toast.loading("Sign to sync the change...", { id: toastId });
+      const changes = {
+        price: priceChanged ? newPrice : undefined,
+        title: metadataChanged ? form.title : undefined,
+        description: metadataChanged ? form.description : undefined,
+      };
+      const issuedAt = Date.now();
+      const message = await buildContentUpdateMessage({
+        contentId: content.id,
+        creator: content.creator,
+        action: "update",
+        ...changes,
+        issuedAt,
+      });
+      const { signature } = await signPersonalMessage({
+        message: new TextEncoder().encode(message),
+      });
+
+      await api.updateContent({
+        params: { id: content.id },
+        body: { ...changes, signature, issuedAt },
+      });
+
+      toast.success("Content updated!", { id: toastId });
+      setEditing(null);
+      await queryClient.invalidateQueries({ queryKey: ["contents"] });
+    } catch (error) {
+      console.error("Update error:", error);
+      toast.error(errorMessage(error, "Failed to update content"), {
+        id: toastId,
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelist = async (content: ContentMetadata) => {
+    if (!account) return;
+    if (
+      !window.confirm(
+        `Delist "${content.title}"? It can't be sold again, but buyers keep access.`
+      )
+    ) {
+      return;
+    }
+
+    setBusy(content.id);
+    const toastId = toast.loading("Waiting for wallet signature...");
+
+    try {
+      const tx = new Transaction();
+      addDelistCall(tx, CONTENT_MODULE, content.id);
+      await execute(tx);
+
+      toast.loading("Sign to sync the change...", { id: toastId });
+      const issuedAt = Date.now();
+      const message = await buildContentUpdateMessage({
+        contentId: content.id,
+        creator: content.creator,
+        action: "delist",
+        issuedAt,
+      });
+      const { signature } = await signPersonalMessage({
+        message: new TextEncoder().encode(message),
+      });
+
+      await api.delistContent({
+        params: { id: content.id },
+        body: { signature, issuedAt },
+      });
+
+      toast.success("Content delisted", { id: toastId });
+      await queryClient.invalidateQueries({ queryKey: ["contents"] });
+    } catch (error) {
+      console.error("Delist error:", error);
+      toast.error(errorMessage(error, "Failed to delist content"), {
+        id: toastId,
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!account) return null;
+
+  return (
+    <Card className="p-0 overflow-x-auto">
+      <div className="px-6 py-4 border-b">
+        <h3 className="font-semibold">Your content</h3>
+        <p className="text-sm text-muted-foreground">
+          Edit the price and details of future sales, or take content down
+        </p>
+      </div>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : owned.length === 0 ? (
+        <p className="p-8 text-center text-muted-foreground">
+          You have no listed content
+        </p>
+      ) : (
+        <ul>
+          {owned.map((content) => (
+            <li key={content.id} className="border-b last:border-0 px-6 py-4">
+              {editing === content.id ? (
+                <div className="space-y-3">
+                  <input
+                    type="text"
+                    value={form.title}
+                    onChange={(e) =>
+                      setForm({ ...form, title: e.target.value })
+                    }
+                    aria-label="Title"
+                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={busy === content.id}
+                  />
+                  <textarea
+                    value={form.description}
+                    onChange={(e) =>
+                      setForm({ ...form, description: e.target.value })
+                    }
+                    aria-label="Description"
+                    rows={2}
+                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={busy === content.id}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="number"
+                      value={displayPrice}
+                      onChange={(e) =>
+                        setForm({ ...form, price: e.target.value })
+                      }
+                      aria-label="Price"
+                      step={decimals ? "any" : "1"}
+                      min="0"
+                      className="w-32 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={busy === content.id || decimals === undefined}
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {symbol}
+                    </span>
+                    <div className="flex-1" />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditing(null)}
+                      disabled={busy === content.id}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSave(content)}
+                      disabled={busy === content.id || decimals === undefined}
+                    >
+                      {busy === content.id && (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      )}
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{content.title}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {content.description}
+                    </p>
+                  </div>
+                  <span className="text-sm whitespace-nowrap">
+                    <CoinAmount
+                      amount={content.price}
+                      coinType={content.coinType}
+                    />
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => startEdit(content)}
+                    disabled={busy !== null}
+                    aria-label={`Edit ${content.title}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleDelist(content)}
+                    disabled={busy !== null}
+                    aria-label={`Delist ${content.title}`}
+                  >
+                    {busy === content.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    )}
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
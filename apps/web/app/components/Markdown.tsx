@@ -0,0 +1,92 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import { cn } from "../lib/utils";
+
+/** Props without react-markdown's hast `node`, which must not reach the DOM */
+function domProps<P extends { node?: unknown }>(props: P): Omit<P, "node"> {
+  const rest = { ...props };
+  delete rest.node;
+  return rest;
+}
+
+// Raw HTML in the markdown is not rendered, so creator content can't inject markup
+const components: Components = {
+  h1: ({ className, ...props }) => (
+    <h1
+      {...domProps(props)}
+      className={cn("text-3xl font-bold mt-8 mb-4", className)}
+    />
+  ),
+  h2: ({ className, ...props }) => (
+    <h2
+      {...domProps(props)}
+      className={cn("text-2xl font-semibold mt-8 mb-3", className)}
+    />
+  ),
+  h3: ({ className, ...props }) => (
+    <h3
+      {...domProps(props)}
+      className={cn("text-xl font-semibold mt-6 mb-2", className)}
+    />
+  ),
+  p: ({ className, ...props }) => (
+    <p {...domProps(props)} className={cn("leading-7 my-4", className)} />
+  ),
+  ul: ({ className, ...props }) => (
+    <ul
+      {...domProps(props)}
+      className={cn("list-disc pl-6 my-4 space-y-1", className)}
+    />
+  ),
+  ol: ({ className, ...props }) => (
+    <ol
+      {...domProps(props)}
+      className={cn("list-decimal pl-6 my-4 space-y-1", className)}
+    />
+  ),
+  // target and rel come last so the markdown can't override them
+  a: ({ className, ...props }) => (
+    <a
+      {...domProps(props)}
+      className={cn("text-blue-600 hover:text-blue-700 underline", className)}
+      target="_blank"
+      rel="noopener noreferrer"
+    />
+  ),
+  blockquote: ({ className, ...props }) => (
+    <blockquote
+      {...domProps(props)}
+      className={cn(
+        "border-l-4 border-gray-300 pl-4 italic text-muted-foreground my-4",
+        className,
+      )}
+    />
+  ),
+  // Fenced blocks bring className="language-x", merged rather than replacing
+  code: ({ className, ...props }) => (
+    <code
+      {...domProps(props)}
+      className={cn(
+        "font-mono text-sm bg-slate-100 dark:bg-slate-800 rounded px-1 py-0.5",
+        className,
+      )}
+    />
+  ),
+  pre: ({ className, ...props }) => (
+    <pre
+      {...domProps(props)}
+      className={cn(
+        "font-mono text-sm bg-slate-100 dark:bg-slate-800 rounded-lg p-4 my-4 overflow-x-auto [&_code]:bg-transparent [&_code]:p-0",
+        className,
+      )}
+    />
+  ),
+  hr: () => <hr className="my-8" />,
+};
+
+export function Markdown({ children }: { children: string }) {
+  return (
+    <div className="text-base">
+      <ReactMarkdown components={components}>{children}</ReactMarkdown>
+    </div>
+  );
+}
@@ -5,24 +5,37 @@ import { Header } from "../components/Header";
 import {
   useCurrentAccount,
   useSignAndExecuteTransaction,
+  useSignPersonalMessage,
   useSuiClient,
 } from "@mysten/dapp-kit";
 import { Card } from "../components/ui/card";
 import { Button } from "../components/ui/button";
-import { Loader2, FileText, DollarSign, Lock } from "lucide-react";
+import {
+  Loader2,
+  FileText,
+  DollarSign,
+  Lock,
+  CalendarClock,
+} from "lucide-react";
 import { toast } from "sonner";
+import { api } from "../lib/api";
+import { errorMessage } from "../lib/errors";
 import { useRouter } from "next/navigation";
 import { Transaction } from "@mysten/sui/transactions";
+import { buildContentRegistrationMessage } from "@repo/shared/utils";
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "";
 
+// What one payment buys on a monthly pass
+const MONTHLY_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
 export default function CreatePage() {
   const account = useCurrentAccount();
   const router = useRouter();
   const suiClient = useSuiClient();
   const { mutateAsync: signAndExecuteTransaction } =
     useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
   const [isCreating, setIsCreating] = useState(false);
 
   const [formData, setFormData] = useState({
@@ -30,6 +43,7 @@ export default function CreatePage() {
     description: "",
     content: "",
     price: "",
+    access: "lifetime" as "lifetime" | "monthly",
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -67,13 +81,18 @@ export default function CreatePage() {
       // Build transaction to create content on-chain
       const tx = new Transaction();
 
+      // Monthly passes mint expiring SubscriptionReceipts instead
+      const monthly = formData.access === "monthly";
       tx.moveCall({
-        target: `${PACKAGE_ID}::content_access::create_content`,
+        target: monthly
+          ? `${PACKAGE_ID}::content_access::create_subscription_content`
+          : `${PACKAGE_ID}::content_access::create_content`,
         arguments: [
           tx.pure.string(formData.title),
           tx.pure.string(formData.description),
           tx.pure.u64(BigInt(priceInMist)),
           tx.pure.string(""), // contentUrl
+          ...(monthly ? [tx.pure.u64(MONTHLY_PERIOD_MS)] : []),
         ],
       });
 
@@ -131,30 +150,37 @@ export default function CreatePage() {
 
       const contentId = contentObject.reference.objectId;
 
+      toast.loading("Sign to register your content...", { id: toastId });
+
+      // Prove we're the creator so nobody else can register this content
+      const issuedAt = Date.now();
+      const registrationMessage = await buildContentRegistrationMessage({
+        contentId,
+        creator: account.address,
+        price: priceInMist.toString(),
+        contentData: formData.content,
+        issuedAt,
+      });
+      const { signature } = await signPersonalMessage({
+        message: new TextEncoder().encode(registrationMessage),
+      });
+
       toast.loading("Registering content metadata...", { id: toastId });
 
       // Register content with backend
-      const registerResponse = await fetch(`${API_URL}/content/register`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      await api.registerContent({
+        body: {
           contentId,
           creator: account.address,
           title: formData.title,
           description: formData.description,
           contentData: formData.content,
           price: priceInMist.toString(),
-        }),
+          signature,
+          issuedAt,
+        },
       });
 
-      const registerResult = await registerResponse.json();
-
-      if (!registerResult.success) {
-        throw new Error(registerResult.error || "Failed to register content");
-      }
-
       toast.success("Content created successfully!", { id: toastId });
 
       // Reset form
@@ -163,6 +189,7 @@ export default function CreatePage() {
         description: "",
         content: "",
         price: "",
+        access: "lifetime",
       });
 
       // Redirect to access page after a short delay
@@ -171,10 +198,9 @@ export default function CreatePage() {
       }, 1500);
     } catch (error) {
       console.error("Create error:", error);
-      toast.error(
-        error instanceof Error ? error.message : "Failed to create content",
-        { id: toastId }
-      );
+      toast.error(errorMessage(error, "Failed to create content"), {
+        id: toastId,
+      });
     } finally {
       setIsCreating(false);
     }
@@ -310,6 +336,37 @@ export default function CreatePage() {
                   </p>
                 </div>
 
+                {/* Access */}
+                <div>
+                  <label
+                    htmlFor="access"
+                    className="block text-sm font-medium mb-2"
+                  >
+                    <CalendarClock className="w-4 h-4 inline mr-2" />
+                    Access
+                  </label>
+                  <select
+                    id="access"
+                    value={formData.access}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        access: e.target.value as "lifetime" | "monthly",
+                      })
+                    }
+                    className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                    disabled={isCreating}
+                  >
+                    <option value="lifetime">Lifetime - pay once</option>
+                    <option value="monthly">
+                      Monthly pass - 30 days per payment
+                    </option>
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Monthly passes lapse after 30 days until the buyer renews
+                  </p>
+                </div>
+
                 {/* Submit Button */}
                 <Button
                   type="submit"
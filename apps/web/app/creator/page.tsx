@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import { Header } from "../components/Header";
+import { ManageContent } from "../components/ManageContent";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useQuery } from "@tanstack/react-query";
+import { SUI_DECIMALS, SUI_TYPE_ARG } from "@mysten/sui/utils";
+import { Card } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { CoinAmount } from "../components/CoinAmount";
+import {
+  Loader2,
+  Lock,
+  Download,
+  Receipt,
+  Coins,
+  FileText,
+} from "lucide-react";
+import { toast } from "sonner";
+import type { CreatorStats } from "@repo/shared/types";
+import { api } from "../lib/api";
+import { errorMessage } from "../lib/errors";
+import { downloadCsv, toCsv } from "../lib/csv";
+import { isSuiCoin } from "../lib/coins";
+import { formatSui, formatUnits, shortAddress } from "../lib/format";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES = [
+  { key: "7d", label: "7 days", days: 7 },
+  { key: "30d", label: "30 days", days: 30 },
+  { key: "90d", label: "90 days", days: 90 },
+  { key: "all", label: "All time", days: null },
+] as const;
+
+type RangeKey = (typeof RANGES)[number]["key"];
+
+/**
+ * One row per sale, in the coin it was paid in: base units and whole coins
+ */
+async function exportSales(
+  stats: CreatorStats,
+  range: RangeKey,
+  suiClient: ReturnType<typeof useSuiClient>
+): Promise<void> {
+  const coinTypes = new Map(
+    stats.items.map((item) => [item.contentId, item.coinType])
+  );
+  const coinOf = (contentId: string) =>
+    coinTypes.get(contentId) ?? SUI_TYPE_ARG;
+
+  // Each coin's decimals, looked up once
+  // Without them whole-coin amounts would be off, so the export fails instead
+  const decimals = new Map<string, number>();
+  for (const sale of stats.sales) {
+    const coinType = coinOf(sale.contentId);
+    if (decimals.has(coinType)) continue;
+    const coinDecimals = isSuiCoin(coinType)
+      ? SUI_DECIMALS
+      : (await suiClient.getCoinMetadata({ coinType }))?.decimals;
+    if (coinDecimals === undefined) {
+      throw new Error(
+        `No coin metadata for ${coinType}, can't export its sales`
+      );
+    }
+    decimals.set(coinType, coinDecimals);
+  }
+
+  const csv = toCsv(
+    [
+      "date",
+      "content_id",
+      "title",
+      "buyer",
+      "coin_type",
+      "price_paid_base_units",
+      "price_paid",
+      "receipt_id",
+      "tx_digest",
+    ],
+    stats.sales.map((sale) => {
+      const coinType = coinOf(sale.contentId);
+      return [
+        new Date(sale.timestamp).toISOString(),
+        sale.contentId,
+        sale.contentTitle,
+        sale.buyer,
+        coinType,
+        sale.pricePaid,
+        formatUnits(sale.pricePaid, decimals.get(coinType)!),
+        sale.receiptId,
+        sale.txDigest,
+      ];
+    })
+  );
+  downloadCsv(`atomic402-sales-${range}.csv`, csv);
+}
+
+export default function CreatorPage() {
+  const account = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const [range, setRange] = useState<RangeKey>("30d");
+
+  const {
+    data: stats,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["creatorStats", account?.address, range],
+    queryFn: () => {
+      const days = RANGES.find((option) => option.key === range)?.days;
+      return api.creatorStats({
+        params: { address: account!.address },
+        query: {
+          from: days ? String(Date.now() - days * DAY_MS) : undefined,
+        },
+      });
+    },
+    enabled: !!account?.address,
+  });
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-gray-50 to-gray-100">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Hero Section */}
+        <div className="text-center mb-12">
+          <h2 className="text-4xl font-bold mb-4 bg-linear-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Creator Earnings
+          </h2>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Sales of your content, straight from on-chain purchase events, and
+            the controls to edit or delist it.
+          </p>
+        </div>
+
+        {!account ? (
+          <Card className="max-w-2xl mx-auto p-8 text-center">
+            <Lock className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <h3 className="text-xl font-semibold mb-2">Connect Your Wallet</h3>
+            <p className="text-muted-foreground">
+              Please connect your wallet to see your sales
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {/* Range selector and export */}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex gap-2">
+                {RANGES.map((option) => (
+                  <Button
+                    key={option.key}
+                    variant={range === option.key ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setRange(option.key)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!stats?.sales.length}
+                onClick={() =>
+                  stats &&
+                  exportSales(stats, range, suiClient).catch((error) =>
+                    toast.error(errorMessage(error, "Failed to export sales"))
+                  )
+                }
+              >
+                <Download className="w-4 h-4" />
+                Export CSV
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                <span className="ml-3 text-muted-foreground">
+                  Loading sales...
+                </span>
+              </div>
+            ) : error ? (
+              <Card className="p-8 text-center text-muted-foreground">
+                {errorMessage(error, "Failed to load sales")}
+              </Card>
+            ) : stats ? (
+              <>
+                {/* Totals */}
+                <div className="grid md:grid-cols-3 gap-6">
+                  <Card className="p-6">
+                    <FileText className="w-5 h-5 text-blue-600 mb-2" />
+                    <p className="text-sm text-muted-foreground">Items</p>
+                    <p className="text-2xl font-bold">{stats.items.length}</p>
+                  </Card>
+                  <Card className="p-6">
+                    <Receipt className="w-5 h-5 text-blue-600 mb-2" />
+                    <p className="text-sm text-muted-foreground">Sales</p>
+                    <p className="text-2xl font-bold">{stats.totalSales}</p>
+                  </Card>
+                  <Card className="p-6">
+                    <Coins className="w-5 h-5 text-blue-600 mb-2" />
+                    <p className="text-sm text-muted-foreground">Revenue</p>
+                    <p className="text-2xl font-bold">
+                      {formatSui(stats.totalRevenue)} SUI
+                    </p>
+                  </Card>
+                </div>
+
+                {/* Per-item breakdown */}
+                <Card className="p-0 overflow-x-auto">
+                  {stats.items.length === 0 ? (
+                    <p className="p-8 text-center text-muted-foreground">
+                      You haven&apos;t published any content yet
+                    </p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="border-b text-left text-muted-foreground">
+                        <tr>
+                          <th className="px-6 py-3 font-medium">Content</th>
+                          <th className="px-6 py-3 font-medium">Price</th>
+                          <th className="px-6 py-3 font-medium">Sales</th>
+                          <th className="px-6 py-3 font-medium">Revenue</th>
+                          <th className="px-6 py-3 font-medium">
+                            Recent buyers
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.items.map((item) => (
+                          <tr
+                            key={item.contentId}
+                            className="border-b last:border-0"
+                          >
+                            <td className="px-6 py-4 font-medium">
+                              {item.title}
+                            </td>
+                            <td className="px-6 py-4">
+                              <CoinAmount
+                                amount={item.price}
+                                coinType={item.coinType}
+                              />
+                            </td>
+                            <td className="px-6 py-4">{item.sales}</td>
+                            <td className="px-6 py-4">
+                              <CoinAmount
+                                amount={item.revenue}
+                                coinType={item.coinType}
+                              />
+                            </td>
+                            <td className="px-6 py-4 font-mono text-xs">
+                              {item.recentBuyers.length
+                                ? item.recentBuyers.map(shortAddress).join(", ")
+                                : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </Card>
+              </>
+            ) : null}
+
+            <ManageContent />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import { createApiClient } from "@repo/shared/client";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+/** Typed client for the server, one method per route in API_ROUTES */
+export const api = createApiClient(API_URL);
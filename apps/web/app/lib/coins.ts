@@ -0,0 +1,46 @@
+import { useSuiClientQuery } from "@mysten/dapp-kit";
+import {
+  normalizeStructTag,
+  SUI_DECIMALS,
+  SUI_TYPE_ARG,
+} from "@mysten/sui/utils";
+
+/** Whether a payment coin type is SUI, in any address form */
+export function isSuiCoin(coinType?: string): boolean {
+  return (
+    !coinType ||
+    normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG)
+  );
+}
+
+/**
+ * Format amounts with the payment coin's own decimals (9 for SUI, 6 for USDC...)
+ * format returns null until the decimals are known, so callers can show a
+ * placeholder instead of a misscaled price
+ */
+export function useCoinFormat(coinType?: string) {
+  const type = coinType || SUI_TYPE_ARG;
+  const sui = isSuiCoin(type);
+  const { data: metadata, isPending } = useSuiClientQuery(
+    "getCoinMetadata",
+    { coinType: type },
+    { enabled: !sui }
+  );
+
+  // Without on-chain metadata, fall back to base units
+  const decimals = sui
+    ? SUI_DECIMALS
+    : isPending
+      ? undefined
+      : (metadata?.decimals ?? 0);
+  const symbol = sui ? "SUI" : (metadata?.symbol ?? type.split("::").pop()!);
+
+  return {
+    symbol,
+    decimals,
+    format: (amount: string | bigint): string | null =>
+      decimals === undefined
+        ? null
+        : (Number(amount) / 10 ** decimals).toFixed(2),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Quote a CSV field when it holds a comma, quote or newline
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n");
+}
+
+/**
+ * Save a CSV string through a temporary download link
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,45 @@
+import { ApiError } from "@repo/shared/errors";
+import type { X402ErrorCode } from "@repo/shared/types";
+
+/**
+ * User-facing text for server error codes
+ */
+const ERROR_MESSAGES: Partial<Record<X402ErrorCode, string>> = {
+  NOT_FOUND: "This content no longer exists",
+  NOT_CONFIGURED: "The marketplace isn't fully set up yet, try again later",
+  INSUFFICIENT_BALANCE: "Your wallet balance is too low for this purchase",
+  ACCESS_DENIED: "You already own this content, open it to prove ownership",
+  RATE_LIMITED: "Too many requests, try again in a moment",
+  QUOTE_UNKNOWN: "This payment request wasn't issued by the server, try again",
+  QUOTE_EXPIRED: "The payment request expired, please try again",
+  QUOTE_ALREADY_USED: "This payment was already submitted",
+  TRANSACTION_REJECTED: "The server rejected the transaction",
+  IDEMPOTENCY_KEY_REUSED: "This payment was already submitted",
+  SPONSOR_LIMIT_EXCEEDED:
+    "Gas sponsorship limit reached for today, try again tomorrow",
+  SPONSOR_UNAVAILABLE: "Gas sponsorship is busy, try again in a moment",
+  TRANSACTION_FAILED: "The transaction failed on-chain",
+  INVALID_RESPONSE: "The server sent an unexpected response, try again",
+};
+
+/** Move abort constants of content_access, by name */
+const ABORT_MESSAGES: Record<string, string> = {
+  EInsufficientPayment: "The payment didn't cover the price",
+  EContentNotFound: "This content isn't on-chain",
+  EWrongCoinType: "This content is priced in a different coin",
+  ENotCreator: "Only the creator can change this content",
+  EDelisted: "This content is no longer for sale",
+};
+
+/**
+ * Friendly message for a caught error, falling back to its own text
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    if (error.code === "MOVE_ABORT" && error.reason) {
+      return ABORT_MESSAGES[error.reason] ?? error.message;
+    }
+    return (error.code && ERROR_MESSAGES[error.code]) || error.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
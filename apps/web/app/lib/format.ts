@@ -0,0 +1,47 @@
+import { SUI_DECIMALS } from "@mysten/sui/utils";
+
+const NETWORK = process.env.NEXT_PUBLIC_SUI_NETWORK || "testnet";
+
+/** MIST amount as SUI, two decimals */
+export function formatSui(mist: string): string {
+  return (Number(mist) / 10 ** SUI_DECIMALS).toFixed(2);
+}
+
+/** Base units as whole coins, exact: bigint math, trailing zeros dropped */
+export function formatUnits(amount: string, decimals: number): string {
+  const scale = 10n ** BigInt(decimals);
+  const value = BigInt(amount);
+  const fraction = (value % scale)
+    .toString()
+    .padStart(decimals, "0")
+    .replace(/0+$/, "");
+  return fraction ? `${value / scale}.${fraction}` : `${value / scale}`;
+}
+
+/**
+ * Whole coins as base units, exact
+ * Returns null for anything but a plain decimal with at most `decimals` places
+ */
+export function parseUnits(value: string, decimals: number): string | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  const [, whole = "", fraction = ""] = match ?? [];
+  if (!match || (!whole && !fraction) || fraction.length > decimals) {
+    return null;
+  }
+  return (
+    BigInt(whole || "0") * 10n ** BigInt(decimals) +
+    BigInt(fraction.padEnd(decimals, "0") || "0")
+  ).toString();
+}
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+export function explorerTxUrl(digest: string): string {
+  return `https://suiscan.xyz/${NETWORK}/tx/${digest}`;
+}
+
+export function explorerObjectUrl(objectId: string): string {
+  return `https://suiscan.xyz/${NETWORK}/object/${objectId}`;
+}
@@ -0,0 +1,71 @@
+import { useCurrentAccount, useSignPersonalMessage } from "@mysten/dapp-kit";
+import {
+  CONTENT_KEY_HEADER,
+  decryptContent,
+  generateAccessKeyPair,
+} from "@atomic402/sui-sdk/encryption";
+import {
+  ACCESS_PROOF_HEADER,
+  encodeAccessProof,
+} from "@atomic402/sui-sdk/proof";
+import type { AccessProof, ContentBody } from "@repo/shared/types";
+import { api } from "./api";
+
+/**
+ * Read owned content by proving wallet ownership to the server
+ * Signs the server's one-time challenge, then sends it as ACCESS_PROOF_HEADER
+ * The content key comes back wrapped for a one-time key pair, and the
+ * content is decrypted here in the browser
+ */
+export function useReadContent() {
+  const account = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+
+  return async (
+    contentId: string,
+    receiptId?: string
+  ): Promise<ContentBody & { content: string }> => {
+    if (!account?.address) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    const challenge = await api.getChallenge({
+      params: { id: contentId },
+      query: { address: account.address },
+    });
+
+    const { signature } = await signPersonalMessage({
+      message: new TextEncoder().encode(challenge.message),
+    });
+
+    const proof: AccessProof = {
+      address: account.address,
+      contentId,
+      nonce: challenge.nonce,
+      signature,
+      receiptId,
+    };
+
+    const keyPair = await generateAccessKeyPair();
+
+    const result = await api.getContent({
+      params: { id: contentId },
+      query: { address: account.address },
+      headers: {
+        [ACCESS_PROOF_HEADER]: encodeAccessProof(proof),
+        [CONTENT_KEY_HEADER]: keyPair.publicKey,
+      },
+    });
+    if (!result.paid) {
+      throw new Error("Access proof was not accepted");
+    }
+    if (!result.data.encrypted) {
+      throw new Error("Server did not return encrypted content");
+    }
+
+    return {
+      ...result.data,
+      content: await decryptContent(result.data.encrypted, keyPair.privateKey),
+    };
+  };
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Header } from "../../components/Header";
+import { Markdown } from "../../components/Markdown";
+import { CoinAmount } from "../../components/CoinAmount";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "../../components/ui/card";
+import { Button } from "../../components/ui/button";
+import { ArrowLeft, ExternalLink, Loader2, Lock } from "lucide-react";
+import { api } from "../../lib/api";
+import { errorMessage } from "../../lib/errors";
+import { explorerObjectUrl } from "../../lib/format";
+import { useReadContent } from "../../lib/reader";
+
+export default function ReaderPage() {
+  const { receiptId } = useParams<{ receiptId: string }>();
+  const account = useCurrentAccount();
+  const readContent = useReadContent();
+
+  // Shares the library's query, so coming from /library costs no request
+  const { data: receipts, isLoading: receiptsLoading } = useQuery({
+    queryKey: ["receipts", account?.address],
+    queryFn: () => api.listReceipts({ params: { address: account!.address } }),
+    enabled: !!account?.address,
+  });
+  const receipt = receipts?.find((owned) => owned.id === receiptId);
+
+  // One signature per visit; the body is kept for the session
+  const {
+    data: body,
+    isLoading: bodyLoading,
+    error,
+  } = useQuery({
+    queryKey: ["libraryContent", receiptId],
+    queryFn: () => readContent(receipt!.contentId, receipt!.id),
+    enabled: !!receipt,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-gray-50 to-gray-100">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto">
+          <Button asChild variant="ghost" size="sm" className="mb-6">
+            <Link href="/library">
+              <ArrowLeft className="w-4 h-4" />
+              Back to library
+            </Link>
+          </Button>
+
+          {!account ? (
+            <Card className="p-8 text-center">
+              <Lock className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <h3 className="text-xl font-semibold mb-2">
+                Connect Your Wallet
+              </h3>
+              <p className="text-muted-foreground">
+                Please connect the wallet that owns this receipt
+              </p>
+            </Card>
+          ) : receiptsLoading || bodyLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              <span className="ml-3 text-muted-foreground">
+                {receipt
+                  ? "Sign the message in your wallet to open this content..."
+                  : "Loading..."}
+              </span>
+            </div>
+          ) : !receipt ? (
+            <Card className="p-8 text-center text-muted-foreground">
+              This wallet doesn&apos;t own this receipt
+            </Card>
+          ) : error || !body ? (
+            <Card className="p-8 text-center text-muted-foreground">
+              {errorMessage(error, "Failed to load content")}
+            </Card>
+          ) : (
+            <article className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border px-8 py-10 md:px-12">
+              <header className="mb-8 pb-6 border-b">
+                <h1 className="text-4xl font-bold mb-3">{body.title}</h1>
+                <p className="text-sm text-muted-foreground">
+                  Bought for{" "}
+                  <CoinAmount
+                    amount={receipt.pricePaid}
+                    coinType={receipt.coinType ?? null}
+                  />{" "}
+                  on {new Date(Number(receipt.timestamp)).toLocaleDateString()}{" "}
+                  ·{" "}
+                  <a
+                    href={explorerObjectUrl(receipt.id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                  >
+                    Receipt
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                </p>
+              </header>
+              <Markdown>{body.content}</Markdown>
+            </article>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import Link from "next/link";
+import { Header } from "../components/Header";
+import { CoinAmount } from "../components/CoinAmount";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import {
+  BookOpen,
+  ExternalLink,
+  Library,
+  Loader2,
+  Lock,
+  RefreshCw,
+} from "lucide-react";
+import { api } from "../lib/api";
+import { errorMessage } from "../lib/errors";
+import { explorerObjectUrl } from "../lib/format";
+
+export default function LibraryPage() {
+  const account = useCurrentAccount();
+
+  // Every receipt the wallet owns, newest purchase first
+  // Lapsed subscriptions stay listed, pointing back to the store to renew
+  const {
+    data: receipts,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["receipts", account?.address],
+    queryFn: () => api.listReceipts({ params: { address: account!.address } }),
+    select: (owned) => {
+      const now = Date.now();
+      return owned
+        .map((receipt) => ({
+          ...receipt,
+          lapsed:
+            receipt.expiresAt !== undefined && Number(receipt.expiresAt) <= now,
+        }))
+        .sort((a, b) => Number(b.timestamp) - Number(a.timestamp));
+    },
+    enabled: !!account?.address,
+  });
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-gray-50 to-gray-100">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Hero Section */}
+        <div className="text-center mb-12">
+          <h2 className="text-4xl font-bold mb-4 bg-linear-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            My Library
+          </h2>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Everything you&apos;ve bought. Each item is an AccessReceipt in your
+            wallet.
+          </p>
+        </div>
+
+        <div className="max-w-3xl mx-auto">
+          {!account ? (
+            <Card className="p-8 text-center">
+              <Lock className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <h3 className="text-xl font-semibold mb-2">
+                Connect Your Wallet
+              </h3>
+              <p className="text-muted-foreground">
+                Please connect your wallet to see your library
+              </p>
+            </Card>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              <span className="ml-3 text-muted-foreground">
+                Loading library...
+              </span>
+            </div>
+          ) : error ? (
+            <Card className="p-8 text-center text-muted-foreground">
+              {errorMessage(error, "Failed to load your library")}
+            </Card>
+          ) : !receipts?.length ? (
+            <Card className="p-8 text-center">
+              <Library className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <p className="text-muted-foreground mb-4">
+                You haven&apos;t bought anything yet
+              </p>
+              <Button asChild variant="outline">
+                <Link href="/">Browse content</Link>
+              </Button>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {receipts.map((receipt) => (
+                <Card
+                  key={receipt.id}
+                  className="p-6 flex flex-row items-center justify-between gap-4"
+                >
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold truncate">
+                      {receipt.contentTitle}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      <CoinAmount
+                        amount={receipt.pricePaid}
+                        coinType={receipt.coinType ?? null}
+                      />{" "}
+                      · {new Date(Number(receipt.timestamp)).toLocaleString()}
+                      {receipt.expiresAt !== undefined && (
+                        <>
+                          {" "}
+                          · {receipt.lapsed ? "Expired" : "Until"}{" "}
+                          {new Date(
+                            Number(receipt.expiresAt)
+                          ).toLocaleDateString()}
+                        </>
+                      )}
+                    </p>
+                    <a
+                      href={explorerObjectUrl(receipt.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-mono"
+                    >
+                      {receipt.id.slice(0, 10)}…{receipt.id.slice(-6)}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </div>
+                  {receipt.lapsed ? (
+                    <Button asChild variant="outline">
+                      <Link href="/">
+                        <RefreshCw className="w-4 h-4" />
+                        Renew
+                      </Link>
+                    </Button>
+                  ) : (
+                    <Button asChild>
+                      <Link href={`/library/${receipt.id}`}>
+                        <BookOpen className="w-4 h-4" />
+                        Read
+                      </Link>
+                    </Button>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
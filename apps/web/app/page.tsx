@@ -1,32 +1,73 @@
 "use client";
 
+import { useState } from "react";
 import { Header } from "./components/Header";
+import { CartBar } from "./components/CartBar";
 import { ContentCard } from "./components/ContentCard";
 import { useCurrentAccount, useSignTransaction } from "@mysten/dapp-kit";
-import type { ContentMetadata, X402Response } from "@repo/shared/types";
 import { Loader2 } from "lucide-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { ExternalLink } from "lucide-react";
+import {
+  fromBase64,
+  normalizeStructTag,
+  SUI_TYPE_ARG,
+  toBase64,
+} from "@mysten/sui/utils";
+import { TransactionDataBuilder } from "@mysten/sui/transactions";
+import {
+  encodePaymentHeader,
+  PAYMENT_HEADER,
+  X402_VERSION,
+} from "@atomic402/sui-sdk/x402";
+import { api } from "./lib/api";
+import { errorMessage } from "./lib/errors";
+import { explorerTxUrl } from "./lib/format";
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
-const NETWORK = process.env.NEXT_PUBLIC_SUI_NETWORK || "testnet";
+/** The receipt granting (or, once lapsed, last granting) access to one item */
+interface OwnedReceipt {
+  receiptId: string | null; // Unknown until the refetch after a purchase
+  expiresAt?: number; // Subscriptions only, Unix ms
+  active: boolean;
+}
+
+/**
+ * Success toast with a link to the transaction
+ */
+function purchaseToast(
+  message: string,
+  digest: string,
+  toastId: string | number
+) {
+  toast.success(
+    <div className="flex items-center gap-2">
+      <span>{message}</span>
+      <a
+        href={explorerTxUrl(digest)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
+        onClick={(e) => e.stopPropagation()}
+      >
+        View on Explorer
+        <ExternalLink className="w-3 h-3" />
+      </a>
+    </div>,
+    { id: toastId, duration: 5000 }
+  );
+}
 
 export default function Home() {
   const account = useCurrentAccount();
   const { mutateAsync: signTransaction } = useSignTransaction();
   const queryClient = useQueryClient();
+  const [cart, setCart] = useState<string[]>([]); // Content IDs, in order added
 
   // Fetch available content with TanStack Query
-  const { data: contentsData, isLoading: contentsLoading } = useQuery<
-    ContentMetadata[]
-  >({
+  const { data: contentsData, isLoading: contentsLoading } = useQuery({
     queryKey: ["contents"],
-    queryFn: async () => {
-      const response = await fetch(`${API_URL}/content`);
-      const data = await response.json();
-      return data.data || [];
-    },
+    queryFn: () => api.listContent(),
   });
 
   // Check owned content when wallet connects with TanStack Query
@@ -34,24 +75,87 @@ export default function Home() {
     data: ownedContentData,
     isLoading: ownedContentLoading,
     refetch: refetchOwnedContent,
-  } = useQuery<string[]>({
+  } = useQuery<Record<string, OwnedReceipt>>({
     queryKey: ["ownedContent", account?.address],
     queryFn: async () => {
-      if (!account?.address) return [];
+      if (!account?.address) return {};
 
-      const response = await fetch(`${API_URL}/receipts/${account.address}`);
-      const data = await response.json();
-
-      if (data.success) {
-        return data.data.map((r: { contentId: string }) => r.contentId);
+      // Content ID to receipt, so access proofs can name the receipt
+      // Per content, keep the receipt that lasts longest (lifetime beats any expiry)
+      const receipts = await api.listReceipts({
+        params: { address: account.address },
+      });
+      const now = Date.now();
+      const owned: Record<string, OwnedReceipt> = {};
+      for (const receipt of receipts) {
+        const expiresAt =
+          receipt.expiresAt === undefined
+            ? undefined
+            : Number(receipt.expiresAt);
+        const current = owned[receipt.contentId];
+        if (
+          !current ||
+          (expiresAt ?? Infinity) > (current.expiresAt ?? Infinity)
+        ) {
+          owned[receipt.contentId] = {
+            receiptId: receipt.id,
+            expiresAt,
+            active: expiresAt === undefined || expiresAt > now,
+          };
+        }
       }
-      return [];
+      return owned;
     },
     enabled: !!account?.address,
   });
 
   const contents = contentsData || [];
-  const ownedContent = new Set<string>(ownedContentData || []);
+  const ownedContent = ownedContentData || {};
+  const cartItems = cart
+    .map((id) => contents.find((content) => content.id === id))
+    .filter((content) => content !== undefined);
+
+  /**
+   * Show new purchases as owned now, and pick up their receipts shortly
+   * A new receipt's ID and a renewal's expiry arrive with the refetch
+   */
+  const markOwned = (address: string, contentIds: string[]) => {
+    queryClient.setQueryData<Record<string, OwnedReceipt>>(
+      ["ownedContent", address],
+      (old) => ({
+        ...old,
+        ...Object.fromEntries(
+          contentIds.map((contentId) => [
+            contentId,
+            { receiptId: old?.[contentId]?.receiptId ?? null, active: true },
+          ])
+        ),
+      })
+    );
+
+    // Refetch after a short delay to ensure blockchain state is settled
+    setTimeout(async () => {
+      await refetchOwnedContent();
+    }, 1500);
+  };
+
+  // A bundle is paid from one coin, so the cart sticks to one payment coin
+  const toggleCart = (contentId: string) => {
+    if (cart.includes(contentId)) {
+      setCart(cart.filter((id) => id !== contentId));
+      return;
+    }
+
+    const coinTypeOf = (id: string) =>
+      normalizeStructTag(
+        contents.find((content) => content.id === id)?.coinType || SUI_TYPE_ARG
+      );
+    if (cartItems[0] && coinTypeOf(cartItems[0].id) !== coinTypeOf(contentId)) {
+      toast.error("Items in one checkout must be priced in the same coin");
+      return;
+    }
+    setCart([...cart, contentId]);
+  };
 
   // Show loading state until both contents and owned content (if wallet connected) are loaded
   const isLoadingData =
@@ -67,15 +171,15 @@ export default function Home() {
 
     try {
       // Step 1: Request content (will get 402 response)
-      const response = await fetch(
-        `${API_URL}/content/${contentId}?address=${account.address}`
-      );
-
-      if (response.status !== 402) {
-        throw new Error("Expected 402 Payment Required response");
+      // A 402 without bytes (e.g. low balance) throws with its error code
+      const requested = await api.getContent({
+        params: { id: contentId },
+        query: { address: account.address },
+      });
+      if (requested.paid) {
+        throw new Error("You already have access to this content");
       }
-
-      const x402Response: X402Response = await response.json();
+      const x402Response = requested.payment;
 
       toast.loading("Waiting for wallet signature...", { id: toastId });
 
@@ -88,66 +192,91 @@ export default function Home() {
       toast.loading("Submitting transaction to blockchain...", { id: toastId });
 
       // Step 3: Submit signed transaction to server
-      const executeResponse = await fetch(
-        `${API_URL}/content/${contentId}/execute`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            transactionBytes: x402Response.paymentRequired.transactionBytes,
-            signature: signature,
-            publicKey: account.publicKey,
-          }),
-        }
-      );
-
-      const result = await executeResponse.json();
-
-      if (result.success) {
-        const explorerUrl = `https://suiscan.xyz/${NETWORK}/tx/${result.data.digest}`;
-
-        toast.success(
-          <div className="flex items-center gap-2">
-            <span>Purchase successful!</span>
-            <a
-              href={explorerUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
-              onClick={(e) => e.stopPropagation()}
-            >
-              View on Explorer
-              <ExternalLink className="w-3 h-3" />
-            </a>
-          </div>,
-          { id: toastId, duration: 5000 }
-        );
-
-        // Optimistically update the cache immediately
-        queryClient.setQueryData<string[]>(
-          ["ownedContent", account.address],
-          (old) => {
-            const current = old || [];
-            return current.includes(contentId)
-              ? current
-              : [...current, contentId];
-          }
-        );
-
-        // Refetch after a short delay to ensure blockchain state is settled
-        setTimeout(async () => {
-          await refetchOwnedContent();
-        }, 1500);
-      } else {
-        throw new Error(result.error || "Transaction failed");
-      }
+      // Keyed by digest so a retried request can't purchase twice
+      const result = await api.executePurchase({
+        params: { id: contentId },
+        headers: {
+          "Idempotency-Key": TransactionDataBuilder.getDigestFromBytes(
+            fromBase64(x402Response.paymentRequired.transactionBytes)
+          ),
+        },
+        body: {
+          transactionBytes: x402Response.paymentRequired.transactionBytes,
+          signature: signature,
+          publicKey: toBase64(new Uint8Array(account.publicKey)),
+          quoteId: x402Response.paymentRequired.quote.quoteId,
+        },
+      });
+      purchaseToast("Purchase successful!", result.digest, toastId);
+      markOwned(account.address, [contentId]);
+      setCart((current) => current.filter((id) => id !== contentId));
     } catch (error) {
       console.error("Purchase error:", error);
-      toast.error(error instanceof Error ? error.message : "Purchase failed", {
-        id: toastId,
+      toast.error(errorMessage(error, "Purchase failed"), { id: toastId });
+    }
+  };
+
+  /**
+   * Buy everything in the cart with one signature and one transaction
+   * GET /bundles returns a single 402; the signed PTB goes back as X-PAYMENT
+   */
+  const handleCheckout = async () => {
+    if (!account?.address) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+
+    const toastId = toast.loading("Requesting payment details...");
+    const ids = cart.join(",");
+
+    try {
+      const requested = await api.getBundle({
+        query: { ids, address: account.address },
+      });
+      if (requested.paid) {
+        throw new Error("This cart has already been paid for");
+      }
+      const { paymentRequired, accepts } = requested.payment;
+
+      toast.loading("Waiting for wallet signature...", { id: toastId });
+
+      const { signature } = await signTransaction({
+        transaction: paymentRequired.transactionBytes,
+      });
+
+      toast.loading("Submitting transaction to blockchain...", { id: toastId });
+
+      // Settles like any x402 resource; a failed payment throws with its reason
+      const settled = await api.getBundle({
+        query: { ids },
+        headers: {
+          [PAYMENT_HEADER]: encodePaymentHeader({
+            x402Version: X402_VERSION,
+            scheme: "exact",
+            network: accepts[0]!.network,
+            payload: {
+              transactionBytes: paymentRequired.transactionBytes,
+              signature,
+              publicKey: toBase64(new Uint8Array(account.publicKey)),
+              quoteId: paymentRequired.quote.quoteId,
+            },
+          }),
+        },
       });
+      if (!settled.paid) {
+        throw new Error(settled.payment.error);
+      }
+
+      purchaseToast(
+        `Purchased ${settled.data.contentIds.length} items!`,
+        settled.data.digest,
+        toastId
+      );
+      markOwned(account.address, settled.data.contentIds);
+      setCart([]);
+    } catch (error) {
+      console.error("Checkout error:", error);
+      toast.error(errorMessage(error, "Checkout failed"), { id: toastId });
     }
   };
 
@@ -155,7 +284,9 @@ export default function Home() {
     <div className="min-h-screen bg-linear-to-b from-gray-50 to-gray-100">
       <Header />
 
-      <main className="container mx-auto px-4 py-8">
+      <main
+        className={`container mx-auto px-4 py-8 ${cart.length > 0 ? "pb-28" : ""}`}
+      >
         {/* Hero Section */}
         <div className="text-center mb-12">
           <h2 className="text-4xl font-bold mb-4 bg-linear-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
@@ -181,13 +312,25 @@ export default function Home() {
               <ContentCard
                 key={content.id}
                 content={content}
-                hasAccess={ownedContent.has(content.id)}
+                hasAccess={ownedContent[content.id]?.active}
+                lapsed={ownedContent[content.id]?.active === false}
+                receiptId={ownedContent[content.id]?.receiptId ?? undefined}
+                expiresAt={ownedContent[content.id]?.expiresAt}
+                inCart={cart.includes(content.id)}
                 onPurchase={handlePurchase}
+                onToggleCart={toggleCart}
               />
             ))}
           </div>
         )}
       </main>
+
+      <CartBar
+        items={cartItems}
+        onRemove={toggleCart}
+        onClear={() => setCart([])}
+        onCheckout={handleCheckout}
+      />
     </div>
   );
 }
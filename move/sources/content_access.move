@@ -4,10 +4,22 @@ module x402_content::content_access {
     use sui::coin::{Self, Coin};
     use sui::sui::SUI;
     use sui::event;
+    use sui::dynamic_field as df;
+    use std::type_name::{Self, TypeName};
 
     // ===== Errors =====
     const EInsufficientPayment: u64 = 0;
     const EContentNotFound: u64 = 1;
+    const EWrongCoinType: u64 = 2;
+    const ESubscriptionOnly: u64 = 3;
+    const ENotSubscription: u64 = 4;
+    const EReceiptMismatch: u64 = 5;
+    const ENotCreator: u64 = 6;
+    const EInvalidSplit: u64 = 7;
+    const EDelisted: u64 = 8;
+
+    /// Revenue shares are in basis points of the price
+    const MAX_BPS: u64 = 10_000;
 
     // ===== Objects =====
 
@@ -38,6 +50,40 @@ module x402_content::content_access {
         timestamp: u64,
     }
 
+    /// Subscription Receipt - time-limited access, extended by renewing
+    /// Access lapses once the clock passes expires_at (Unix ms)
+    public struct SubscriptionReceipt has key, store {
+        id: UID,
+        content_id: ID,
+        content_title: vector<u8>,
+        price_paid: u64,
+        purchaser: address,
+        timestamp: u64,
+        expires_at: u64,
+    }
+
+    /// Dynamic field key on a ContentItem priced in a coin other than SUI
+    /// Value is the TypeName of the payment coin
+    public struct PaymentCoinKey has copy, drop, store {}
+
+    /// Dynamic field key on a ContentItem sold as a subscription
+    /// Value is the period one payment buys, in ms
+    public struct SubscriptionPeriodKey has copy, drop, store {}
+
+    /// Dynamic field key on a ContentItem whose revenue is shared
+    /// Value is a vector<RevenueShare>; the creator keeps the remainder
+    public struct RevenueSplitKey has copy, drop, store {}
+
+    /// Dynamic field key on a ContentItem its creator took off sale
+    /// Value is always true; purchases abort, existing receipts keep working
+    public struct DelistedKey has copy, drop, store {}
+
+    /// One co-recipient's cut of every payment, in basis points
+    public struct RevenueShare has copy, drop, store {
+        recipient: address,
+        bps: u64,
+    }
+
     // ===== Events =====
 
     public struct ContentCreated has copy, drop {
@@ -55,6 +101,34 @@ module x402_content::content_access {
         timestamp: u64,
     }
 
+    public struct SubscriptionRenewed has copy, drop {
+        content_id: ID,
+        receipt_id: ID,
+        purchaser: address,
+        price_paid: u64,
+        timestamp: u64,
+        expires_at: u64,
+    }
+
+    public struct RevenueSplitUpdated has copy, drop {
+        content_id: ID,
+        shares: vector<RevenueShare>,
+    }
+
+    /// Emitted on every price or metadata change, with the new values
+    public struct ContentUpdated has copy, drop {
+        content_id: ID,
+        title: vector<u8>,
+        description: vector<u8>,
+        price: u64,
+        creator: address,
+    }
+
+    public struct ContentDelisted has copy, drop {
+        content_id: ID,
+        creator: address,
+    }
+
     // ===== Init =====
 
     fun init(ctx: &mut TxContext) {
@@ -75,9 +149,201 @@ module x402_content::content_access {
         content_url: vector<u8>,
         ctx: &mut TxContext
     ) {
+        let content = new_content(title, description, price, content_url, ctx);
+        transfer::share_object(content);
+    }
+
+    /// Create new premium content priced in Coin<T> (e.g. USDC)
+    public entry fun create_content_with_coin<T>(
+        title: vector<u8>,
+        description: vector<u8>,
+        price: u64,
+        content_url: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        let mut content = new_content(title, description, price, content_url, ctx);
+        df::add(&mut content.id, PaymentCoinKey {}, type_name::get<T>());
+        transfer::share_object(content);
+    }
+
+    /// Create content sold as a subscription: each payment buys period_ms of access
+    public entry fun create_subscription_content(
+        title: vector<u8>,
+        description: vector<u8>,
+        price: u64,
+        content_url: vector<u8>,
+        period_ms: u64,
+        ctx: &mut TxContext
+    ) {
+        let mut content = new_content(title, description, price, content_url, ctx);
+        df::add(&mut content.id, SubscriptionPeriodKey {}, period_ms);
+        transfer::share_object(content);
+    }
+
+    /// Create subscription content priced in Coin<T>
+    public entry fun create_subscription_content_with_coin<T>(
+        title: vector<u8>,
+        description: vector<u8>,
+        price: u64,
+        content_url: vector<u8>,
+        period_ms: u64,
+        ctx: &mut TxContext
+    ) {
+        let mut content = new_content(title, description, price, content_url, ctx);
+        df::add(&mut content.id, PaymentCoinKey {}, type_name::get<T>());
+        df::add(&mut content.id, SubscriptionPeriodKey {}, period_ms);
+        transfer::share_object(content);
+    }
+
+    /// Share every future payment with co-authors or a platform
+    /// Each recipient gets bps / 10000 of the price, the creator the rest
+    /// Only the creator can call this; empty vectors remove the split
+    public entry fun set_revenue_split(
+        content: &mut ContentItem,
+        recipients: vector<address>,
+        shares_bps: vector<u64>,
+        ctx: &TxContext
+    ) {
+        assert!(ctx.sender() == content.creator, ENotCreator);
+        assert!(recipients.length() == shares_bps.length(), EInvalidSplit);
+
+        let mut shares = vector[];
+        let mut total = 0;
+        let mut i = 0;
+        while (i < recipients.length()) {
+            let bps = shares_bps[i];
+            assert!(bps > 0, EInvalidSplit);
+            total = total + bps;
+            shares.push_back(RevenueShare { recipient: recipients[i], bps });
+            i = i + 1;
+        };
+        assert!(total <= MAX_BPS, EInvalidSplit);
+
+        if (df::exists_(&content.id, RevenueSplitKey {})) {
+            df::remove<RevenueSplitKey, vector<RevenueShare>>(&mut content.id, RevenueSplitKey {});
+        };
+        if (!shares.is_empty()) {
+            df::add(&mut content.id, RevenueSplitKey {}, shares);
+        };
+
+        event::emit(RevenueSplitUpdated {
+            content_id: object::id(content),
+            shares,
+        });
+    }
+
+    /// Change the price of future sales; receipts already sold are untouched
+    public entry fun update_price(
+        content: &mut ContentItem,
+        price: u64,
+        ctx: &TxContext
+    ) {
+        assert_editable(content, ctx);
+        content.price = price;
+        emit_updated(content);
+    }
+
+    /// Change the title and description shown to buyers
+    public entry fun update_metadata(
+        content: &mut ContentItem,
+        title: vector<u8>,
+        description: vector<u8>,
+        ctx: &TxContext
+    ) {
+        assert_editable(content, ctx);
+        content.title = title;
+        content.description = description;
+        emit_updated(content);
+    }
+
+    /// Take content off sale for good: new purchases and renewals abort
+    /// Buyers keep their receipts; only the creator can call this
+    public entry fun delist(content: &mut ContentItem, ctx: &TxContext) {
+        assert_editable(content, ctx);
+        df::add(&mut content.id, DelistedKey {}, true);
+
+        event::emit(ContentDelisted {
+            content_id: object::id(content),
+            creator: content.creator,
+        });
+    }
+
+    /// THE KEY FUNCTION: Atomic payment + access grant
+    /// This is what makes x402 on Sui special - no verification delay!
+    public entry fun purchase_and_grant_access(
+        content: &ContentItem,
+        payment: Coin<SUI>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        grant_access(content, payment, clock, ctx);
+    }
+
+    /// Atomic payment + access grant for content priced in Coin<T>
+    public entry fun purchase_and_grant_access_with_coin<T>(
+        content: &ContentItem,
+        payment: Coin<T>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        grant_access(content, payment, clock, ctx);
+    }
+
+    /// Atomic payment + one period of access to subscription content
+    public entry fun subscribe(
+        content: &ContentItem,
+        payment: Coin<SUI>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        grant_subscription(content, payment, clock, ctx);
+    }
+
+    /// Subscribe to content priced in Coin<T>
+    public entry fun subscribe_with_coin<T>(
+        content: &ContentItem,
+        payment: Coin<T>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        grant_subscription(content, payment, clock, ctx);
+    }
+
+    /// Pay for another period on an existing subscription
+    /// Extends from expires_at while active, from now once lapsed
+    public entry fun renew_subscription(
+        content: &ContentItem,
+        receipt: &mut SubscriptionReceipt,
+        payment: Coin<SUI>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        extend_subscription(content, receipt, payment, clock, ctx);
+    }
+
+    /// Renew a subscription priced in Coin<T>
+    public entry fun renew_subscription_with_coin<T>(
+        content: &ContentItem,
+        receipt: &mut SubscriptionReceipt,
+        payment: Coin<T>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        extend_subscription(content, receipt, payment, clock, ctx);
+    }
+
+    // ===== Internal Functions =====
+
+    fun new_content(
+        title: vector<u8>,
+        description: vector<u8>,
+        price: u64,
+        content_url: vector<u8>,
+        ctx: &mut TxContext
+    ): ContentItem {
         let content_id = object::new(ctx);
         let content_id_inner = object::uid_to_inner(&content_id);
-        
+
         let content = ContentItem {
             id: content_id,
             title,
@@ -94,23 +360,63 @@ module x402_content::content_access {
             creator: ctx.sender(),
         });
 
-        transfer::share_object(content);
+        content
     }
 
-    /// THE KEY FUNCTION: Atomic payment + access grant
-    /// This is what makes x402 on Sui special - no verification delay!
-    public entry fun purchase_and_grant_access(
+    /// Only the creator edits content, and only while it's listed
+    fun assert_editable(content: &ContentItem, ctx: &TxContext) {
+        assert!(ctx.sender() == content.creator, ENotCreator);
+        assert!(!is_delisted(content), EDelisted);
+    }
+
+    fun emit_updated(content: &ContentItem) {
+        event::emit(ContentUpdated {
+            content_id: object::id(content),
+            title: content.title,
+            description: content.description,
+            price: content.price,
+            creator: content.creator,
+        });
+    }
+
+    /// Check the payment coin and amount, then pay the creator
+    /// Revenue shares are split off first, in the same transaction
+    fun pay_creator<T>(content: &ContentItem, mut payment: Coin<T>, ctx: &mut TxContext) {
+        assert!(!is_delisted(content), EDelisted);
+        assert!(get_payment_coin_type(content) == type_name::get<T>(), EWrongCoinType);
+        assert!(coin::value(&payment) >= content.price, EInsufficientPayment);
+
+        let shares = get_revenue_split(content);
+        let mut i = 0;
+        while (i < shares.length()) {
+            let share = &shares[i];
+            let amount = share_amount(content.price, share.bps);
+            if (amount > 0) {
+                transfer::public_transfer(coin::split(&mut payment, amount, ctx), share.recipient);
+            };
+            i = i + 1;
+        };
+
+        transfer::public_transfer(payment, content.creator);
+    }
+
+    /// bps / 10000 of price, rounded down
+    fun share_amount(price: u64, bps: u64): u64 {
+        (((price as u128) * (bps as u128) / (MAX_BPS as u128)) as u64)
+    }
+
+    fun grant_access<T>(
         content: &ContentItem,
-        payment: Coin<SUI>,
+        payment: Coin<T>,
         clock: &sui::clock::Clock,
         ctx: &mut TxContext
     ) {
-        // Verify payment amount
+        // Lifetime access isn't for sale on subscription content
+        assert!(!is_subscription(content), ESubscriptionOnly);
         let price = content.price;
-        assert!(coin::value(&payment) >= price, EInsufficientPayment);
 
         // Transfer payment to content creator (atomic!)
-        transfer::public_transfer(payment, content.creator);
+        pay_creator(content, payment, ctx);
 
         // Mint access receipt NFT (atomic!)
         let receipt_id = object::new(ctx);
@@ -137,6 +443,69 @@ module x402_content::content_access {
         transfer::public_transfer(receipt, ctx.sender());
     }
 
+    fun grant_subscription<T>(
+        content: &ContentItem,
+        payment: Coin<T>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(is_subscription(content), ENotSubscription);
+        let price = content.price;
+        pay_creator(content, payment, ctx);
+
+        let now = sui::clock::timestamp_ms(clock);
+        let receipt_id = object::new(ctx);
+        let receipt_id_inner = object::uid_to_inner(&receipt_id);
+
+        let receipt = SubscriptionReceipt {
+            id: receipt_id,
+            content_id: object::id(content),
+            content_title: content.title,
+            price_paid: price,
+            purchaser: ctx.sender(),
+            timestamp: now,
+            expires_at: now + get_subscription_period(content),
+        };
+
+        event::emit(ContentPurchased {
+            content_id: object::id(content),
+            receipt_id: receipt_id_inner,
+            purchaser: ctx.sender(),
+            price_paid: price,
+            timestamp: now,
+        });
+
+        transfer::public_transfer(receipt, ctx.sender());
+    }
+
+    fun extend_subscription<T>(
+        content: &ContentItem,
+        receipt: &mut SubscriptionReceipt,
+        payment: Coin<T>,
+        clock: &sui::clock::Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(is_subscription(content), ENotSubscription);
+        assert!(receipt.content_id == object::id(content), EReceiptMismatch);
+        let price = content.price;
+        pay_creator(content, payment, ctx);
+
+        let now = sui::clock::timestamp_ms(clock);
+        let from = if (receipt.expires_at > now) { receipt.expires_at } else { now };
+        receipt.expires_at = from + get_subscription_period(content);
+        receipt.price_paid = price;
+        receipt.timestamp = now;
+
+        event::emit(SubscriptionRenewed {
+            content_id: object::id(content),
+            receipt_id: object::id(receipt),
+            purchaser: ctx.sender(),
+            price_paid: price,
+            timestamp: now,
+            expires_at: receipt.expires_at,
+        });
+    }
+
     // ===== View Functions =====
 
     public fun get_content_price(content: &ContentItem): u64 {
@@ -155,6 +524,51 @@ module x402_content::content_access {
         content.creator
     }
 
+    /// Coin the content is priced in (SUI unless created with a coin type)
+    public fun get_payment_coin_type(content: &ContentItem): TypeName {
+        if (df::exists_(&content.id, PaymentCoinKey {})) {
+            *df::borrow(&content.id, PaymentCoinKey {})
+        } else {
+            type_name::get<SUI>()
+        }
+    }
+
+    public fun get_content_description(content: &ContentItem): vector<u8> {
+        content.description
+    }
+
+    /// Whether the creator took the content off sale
+    public fun is_delisted(content: &ContentItem): bool {
+        df::exists_(&content.id, DelistedKey {})
+    }
+
+    public fun is_subscription(content: &ContentItem): bool {
+        df::exists_(&content.id, SubscriptionPeriodKey {})
+    }
+
+    /// Access one subscription payment buys, in ms
+    public fun get_subscription_period(content: &ContentItem): u64 {
+        assert!(is_subscription(content), ENotSubscription);
+        *df::borrow(&content.id, SubscriptionPeriodKey {})
+    }
+
+    /// Co-recipients' shares, empty if the creator keeps everything
+    public fun get_revenue_split(content: &ContentItem): vector<RevenueShare> {
+        if (df::exists_(&content.id, RevenueSplitKey {})) {
+            *df::borrow(&content.id, RevenueSplitKey {})
+        } else {
+            vector[]
+        }
+    }
+
+    public fun get_share_recipient(share: &RevenueShare): address {
+        share.recipient
+    }
+
+    public fun get_share_bps(share: &RevenueShare): u64 {
+        share.bps
+    }
+
     public fun get_receipt_content_id(receipt: &AccessReceipt): ID {
         receipt.content_id
     }
@@ -163,6 +577,19 @@ module x402_content::content_access {
         receipt.timestamp
     }
 
+    public fun get_subscription_content_id(receipt: &SubscriptionReceipt): ID {
+        receipt.content_id
+    }
+
+    public fun get_subscription_expires_at(receipt: &SubscriptionReceipt): u64 {
+        receipt.expires_at
+    }
+
+    /// Whether the subscription still grants access at the clock's time
+    public fun is_subscription_active(receipt: &SubscriptionReceipt, clock: &sui::clock::Clock): bool {
+        sui::clock::timestamp_ms(clock) < receipt.expires_at
+    }
+
     // ===== Test Init =====
     
     #[test_only]
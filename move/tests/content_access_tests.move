@@ -0,0 +1,268 @@
+#[test_only]
+module x402_content::content_access_tests {
+    use sui::clock;
+    use sui::coin::{Self, Coin};
+    use sui::sui::SUI;
+    use sui::test_scenario::{Self as ts, Scenario};
+    use x402_content::content_access::{Self, AccessReceipt, ContentItem};
+
+    const CREATOR: address = @0xA;
+    const COAUTHOR: address = @0xB;
+    const PLATFORM: address = @0xC;
+    const BUYER: address = @0xD;
+
+    // ===== Helpers =====
+
+    /// Creator lists SUI-priced content
+    fun create(scenario: &mut Scenario, price: u64) {
+        ts::next_tx(scenario, CREATOR);
+        content_access::create_content(b"Title", b"Description", price, b"url", ts::ctx(scenario));
+    }
+
+    fun set_split(
+        scenario: &mut Scenario,
+        sender: address,
+        recipients: vector<address>,
+        shares_bps: vector<u64>,
+    ) {
+        ts::next_tx(scenario, sender);
+        let mut content = ts::take_shared<ContentItem>(scenario);
+        content_access::set_revenue_split(&mut content, recipients, shares_bps, ts::ctx(scenario));
+        ts::return_shared(content);
+    }
+
+    /// Buyer pays amount for lifetime access
+    fun purchase(scenario: &mut Scenario, amount: u64) {
+        ts::next_tx(scenario, BUYER);
+        let content = ts::take_shared<ContentItem>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+        let payment = coin::mint_for_testing<SUI>(amount, ts::ctx(scenario));
+        content_access::purchase_and_grant_access(&content, payment, &clock, ts::ctx(scenario));
+        clock::destroy_for_testing(clock);
+        ts::return_shared(content);
+    }
+
+    /// What owner was paid by the last purchase, 0 if nothing was sent
+    fun take_payout(scenario: &mut Scenario, owner: address): u64 {
+        ts::next_tx(scenario, owner);
+        if (!ts::has_most_recent_for_sender<Coin<SUI>>(scenario)) {
+            return 0
+        };
+        let payout = ts::take_from_sender<Coin<SUI>>(scenario);
+        let value = payout.value();
+        coin::burn_for_testing(payout);
+        value
+    }
+
+    // ===== pay_creator =====
+
+    #[test]
+    fun purchase_without_split_pays_creator_everything() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        purchase(&mut scenario, 1000);
+
+        assert!(take_payout(&mut scenario, CREATOR) == 1000);
+        assert!(ts::has_most_recent_for_address<AccessReceipt>(BUYER));
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun purchase_pays_each_share_and_creator_the_rest() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR, PLATFORM], vector[3000, 250]);
+        purchase(&mut scenario, 1000);
+
+        assert!(take_payout(&mut scenario, COAUTHOR) == 300);
+        assert!(take_payout(&mut scenario, PLATFORM) == 25);
+        assert!(take_payout(&mut scenario, CREATOR) == 675);
+        assert!(ts::has_most_recent_for_address<AccessReceipt>(BUYER));
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun shares_round_down_and_remainder_goes_to_creator() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1001);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR, PLATFORM], vector[3333, 3333]);
+        purchase(&mut scenario, 1001);
+
+        assert!(take_payout(&mut scenario, COAUTHOR) == 333);
+        assert!(take_payout(&mut scenario, PLATFORM) == 333);
+        assert!(take_payout(&mut scenario, CREATOR) == 335);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun zero_amount_shares_send_no_coin() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 3);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR], vector[3000]);
+        purchase(&mut scenario, 3);
+
+        assert!(take_payout(&mut scenario, COAUTHOR) == 0);
+        assert!(take_payout(&mut scenario, CREATOR) == 3);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun shares_are_of_the_price_and_overpayment_goes_to_creator() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR], vector[5000]);
+        purchase(&mut scenario, 1500);
+
+        assert!(take_payout(&mut scenario, COAUTHOR) == 500);
+        assert!(take_payout(&mut scenario, CREATOR) == 1000);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun subscription_payments_are_split() {
+        let mut scenario = ts::begin(CREATOR);
+        ts::next_tx(&mut scenario, CREATOR);
+        content_access::create_subscription_content(
+            b"Title",
+            b"Description",
+            400,
+            b"url",
+            30 * 24 * 60 * 60 * 1000,
+            ts::ctx(&mut scenario),
+        );
+        set_split(&mut scenario, CREATOR, vector[PLATFORM], vector[1000]);
+
+        ts::next_tx(&mut scenario, BUYER);
+        let content = ts::take_shared<ContentItem>(&scenario);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let payment = coin::mint_for_testing<SUI>(400, ts::ctx(&mut scenario));
+        content_access::subscribe(&content, payment, &clock, ts::ctx(&mut scenario));
+        clock::destroy_for_testing(clock);
+        ts::return_shared(content);
+
+        assert!(take_payout(&mut scenario, PLATFORM) == 40);
+        assert!(take_payout(&mut scenario, CREATOR) == 360);
+        ts::end(scenario);
+    }
+
+    #[test, expected_failure(abort_code = content_access::EInsufficientPayment)]
+    fun underpayment_aborts() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR], vector[5000]);
+        purchase(&mut scenario, 999);
+        ts::end(scenario);
+    }
+
+    #[test, expected_failure(abort_code = content_access::EDelisted)]
+    fun purchase_of_delisted_content_aborts() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let mut content = ts::take_shared<ContentItem>(&scenario);
+        content_access::delist(&mut content, ts::ctx(&mut scenario));
+        ts::return_shared(content);
+
+        purchase(&mut scenario, 1000);
+        ts::end(scenario);
+    }
+
+    // ===== set_revenue_split =====
+
+    #[test]
+    fun set_revenue_split_stores_shares() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR, PLATFORM], vector[3000, 250]);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let content = ts::take_shared<ContentItem>(&scenario);
+        let shares = content_access::get_revenue_split(&content);
+        assert!(shares.length() == 2);
+        assert!(content_access::get_share_recipient(&shares[0]) == COAUTHOR);
+        assert!(content_access::get_share_bps(&shares[0]) == 3000);
+        assert!(content_access::get_share_recipient(&shares[1]) == PLATFORM);
+        assert!(content_access::get_share_bps(&shares[1]) == 250);
+        ts::return_shared(content);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun set_revenue_split_replaces_the_previous_split() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR], vector[3000]);
+        set_split(&mut scenario, CREATOR, vector[PLATFORM], vector[1000]);
+        purchase(&mut scenario, 1000);
+
+        assert!(take_payout(&mut scenario, COAUTHOR) == 0);
+        assert!(take_payout(&mut scenario, PLATFORM) == 100);
+        assert!(take_payout(&mut scenario, CREATOR) == 900);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun empty_split_removes_it() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR], vector[3000]);
+        set_split(&mut scenario, CREATOR, vector[], vector[]);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let content = ts::take_shared<ContentItem>(&scenario);
+        assert!(content_access::get_revenue_split(&content).is_empty());
+        ts::return_shared(content);
+
+        purchase(&mut scenario, 1000);
+        assert!(take_payout(&mut scenario, COAUTHOR) == 0);
+        assert!(take_payout(&mut scenario, CREATOR) == 1000);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun split_may_give_away_the_whole_price() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR, PLATFORM], vector[6000, 4000]);
+        purchase(&mut scenario, 1000);
+
+        assert!(take_payout(&mut scenario, COAUTHOR) == 600);
+        assert!(take_payout(&mut scenario, PLATFORM) == 400);
+        // The creator still gets the (empty) remainder coin
+        assert!(take_payout(&mut scenario, CREATOR) == 0);
+        ts::end(scenario);
+    }
+
+    #[test, expected_failure(abort_code = content_access::ENotCreator)]
+    fun set_revenue_split_by_non_creator_aborts() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, COAUTHOR, vector[COAUTHOR], vector[10000]);
+        ts::end(scenario);
+    }
+
+    #[test, expected_failure(abort_code = content_access::EInvalidSplit)]
+    fun shares_over_10000_bps_abort() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR, PLATFORM], vector[6000, 4001]);
+        ts::end(scenario);
+    }
+
+    #[test, expected_failure(abort_code = content_access::EInvalidSplit)]
+    fun mismatched_lengths_abort() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR, PLATFORM], vector[3000]);
+        ts::end(scenario);
+    }
+
+    #[test, expected_failure(abort_code = content_access::EInvalidSplit)]
+    fun zero_bps_share_aborts() {
+        let mut scenario = ts::begin(CREATOR);
+        create(&mut scenario, 1000);
+        set_split(&mut scenario, CREATOR, vector[COAUTHOR], vector[0]);
+        ts::end(scenario);
+    }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import type { SuiClient } from "@mysten/sui/client";
+import { AccessChallengeLimitError } from "./errors.js";
+import { X402Server } from "./server.js";
+
+const PACKAGE_ID = `0x${"1".repeat(64)}`;
+const CONTENT_ID = `0x${"c".repeat(64)}`;
+
+const address = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+function server(limits: {
+  maxAccessChallengesPerClient?: number;
+  maxAccessChallenges?: number;
+}) {
+  return new X402Server({
+    suiClient: {} as SuiClient,
+    packageId: PACKAGE_ID,
+    ...limits,
+  });
+}
+
+/** Why verifyAccessProof turns down an unsigned proof for the challenge */
+async function verify(
+  x402: X402Server,
+  challenge: { address: string; nonce: string },
+  proofAddress = challenge.address
+) {
+  const result = await x402.verifyAccessProof(
+    {
+      address: proofAddress,
+      contentId: CONTENT_ID,
+      nonce: challenge.nonce,
+      signature: "",
+    },
+    CONTENT_ID
+  );
+  return result.granted ? "granted" : result.reason;
+}
+
+describe("access challenge limits", () => {
+  test("refuses a client past its cap and keeps what it was issued", async () => {
+    const x402 = server({ maxAccessChallengesPerClient: 2 });
+    const issued = [1, 2].map(() =>
+      x402.createAccessChallenge(address(1), CONTENT_ID, "10.0.0.1")
+    );
+
+    expect(() =>
+      x402.createAccessChallenge(address(1), CONTENT_ID, "10.0.0.1")
+    ).toThrow(AccessChallengeLimitError);
+    for (const challenge of issued) {
+      expect(await verify(x402, challenge)).toBe("invalid_signature");
+    }
+  });
+
+  test("a client asking for another's address can't push it out", async () => {
+    const x402 = server({ maxAccessChallengesPerClient: 2 });
+    const victim = x402.createAccessChallenge(
+      address(1),
+      CONTENT_ID,
+      "10.0.0.1"
+    );
+    for (let n = 0; n < 2; n++) {
+      x402.createAccessChallenge(address(1), CONTENT_ID, "10.0.0.2");
+    }
+    expect(() =>
+      x402.createAccessChallenge(address(1), CONTENT_ID, "10.0.0.2")
+    ).toThrow(AccessChallengeLimitError);
+
+    expect(await verify(x402, victim)).toBe("invalid_signature");
+    // Other clients are still served
+    expect(() =>
+      x402.createAccessChallenge(address(1), CONTENT_ID, "10.0.0.3")
+    ).not.toThrow();
+  });
+
+  test("refuses everyone past the overall cap", async () => {
+    const x402 = server({ maxAccessChallenges: 3 });
+    const issued = [1, 2, 3].map((n) =>
+      x402.createAccessChallenge(address(n), CONTENT_ID, `10.0.0.${n}`)
+    );
+
+    expect(() =>
+      x402.createAccessChallenge(address(4), CONTENT_ID, "10.0.0.4")
+    ).toThrow(AccessChallengeLimitError);
+    expect(await verify(x402, issued[0]!)).toBe("invalid_signature");
+  });
+
+  test("matches the proof address however it is written", async () => {
+    const x402 = server({});
+    const challenge = x402.createAccessChallenge("0x1", CONTENT_ID);
+
+    // Past the address check, only the empty signature fails
+    expect(await verify(x402, challenge, address(1))).toBe("invalid_signature");
+  });
+});
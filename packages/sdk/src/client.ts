@@ -5,16 +5,53 @@
 
 import { SuiClient } from "@mysten/sui/client";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  normalizeSuiAddress,
+  normalizeSuiObjectId,
+} from "@mysten/sui/utils";
+import * as v from "valibot";
+import { QuoteExpiredError, X402Error } from "./errors.js";
+import {
+  AccessChallengeSchema,
+  ExecuteResultSchema,
+  PaymentRequiredResponseSchema,
+  X402ResponseSchema,
+  apiResponseSchema,
+  describeIssues,
+} from "./schemas.js";
 import type {
   X402Response,
   SignedTransactionRequest,
   AccessReceiptData,
+  AccessProof,
+  ExecuteResult,
+  PaymentQuote,
+  SettlementResponse,
 } from "./types.js";
+import {
+  fetchAccessReceipt,
+  fetchAccessReceipts,
+  isReceiptActive,
+  ReceiptCache,
+} from "./receipts.js";
+import { DEFAULT_X402_ROUTES, buildPath, type X402Routes } from "./routes.js";
+import {
+  X402_VERSION,
+  IDEMPOTENCY_KEY_HEADER,
+  PAYMENT_HEADER,
+  PAYMENT_RESPONSE_HEADER,
+  encodePaymentHeader,
+  decodePaymentResponseHeader,
+} from "./x402.js";
 
 export interface ClientConfig {
   suiClient: SuiClient;
   packageId: string;
   moduleName?: string; // Default: 'content_access'
+  routes?: Partial<X402Routes>; // Server paths, default DEFAULT_X402_ROUTES
+  receiptCacheTtlMs?: number; // Owned-receipt cache per address, default: 30 seconds, 0 disables
 }
 
 export interface WalletSigner {
@@ -24,6 +61,29 @@ export interface WalletSigner {
   ) => Promise<{ signature: string; publicKey: string }>;
 }
 
+export interface MessageSigner {
+  address: string;
+  signPersonalMessage: (message: Uint8Array) => Promise<{ signature: string }>;
+}
+
+/**
+ * Check a server response body against its schema
+ */
+function parseResponse<TSchema extends v.GenericSchema>(
+  schema: TSchema,
+  body: unknown,
+  name: string
+): v.InferOutput<TSchema> {
+  const result = v.safeParse(schema, body);
+  if (!result.success) {
+    throw new X402Error(
+      "INVALID_RESPONSE",
+      `Invalid ${name} response: ${describeIssues(result.issues)}`
+    );
+  }
+  return result.output;
+}
+
 /**
  * X402 Client SDK
  * Handles x402 payment flow from client perspective
@@ -32,11 +92,26 @@ export class X402Client {
   private client: SuiClient;
   private packageId: string;
   private moduleName: string;
+  private routes: X402Routes;
+  private receiptCache: ReceiptCache;
 
   constructor(config: ClientConfig) {
     this.client = config.suiClient;
     this.packageId = config.packageId;
     this.moduleName = config.moduleName || "content_access";
+    this.routes = { ...DEFAULT_X402_ROUTES, ...config.routes };
+    this.receiptCache = new ReceiptCache(config.receiptCacheTtlMs ?? 30 * 1000);
+  }
+
+  /**
+   * Absolute URL of one of the x402 routes
+   */
+  private routeUrl(
+    serverUrl: string,
+    route: keyof X402Routes,
+    contentId: string
+  ): string {
+    return `${serverUrl}${buildPath(this.routes[route], { id: contentId })}`;
   }
 
   /**
@@ -47,6 +122,7 @@ export class X402Client {
     recipient: string;
     transactionBytes: string;
     description: string;
+    quote?: PaymentQuote;
   } {
     if (response.statusCode !== 402) {
       throw new Error("Invalid x402 response: status code must be 402");
@@ -56,6 +132,11 @@ export class X402Client {
       throw new Error("Invalid x402 response: missing transaction bytes");
     }
 
+    const { quote } = response.paymentRequired;
+    if (quote && quote.expiresAt <= Date.now()) {
+      throw new QuoteExpiredError("Invalid x402 response: quote has expired");
+    }
+
     return response.paymentRequired;
   }
 
@@ -95,26 +176,65 @@ export class X402Client {
 
   /**
    * Submit signed transaction to server for sponsorship and execution
+   * Safe to retry: the Idempotency-Key defaults to the transaction digest
    */
   async submitSignedTransaction(
     serverUrl: string,
     contentId: string,
+    signedTx: SignedTransactionRequest,
+    idempotencyKey: string = TransactionDataBuilder.getDigestFromBytes(
+      fromBase64(signedTx.transactionBytes)
+    )
+  ): Promise<ExecuteResult> {
+    const response = await fetch(
+      this.routeUrl(serverUrl, "execute", contentId),
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [IDEMPOTENCY_KEY_HEADER]: idempotencyKey,
+        },
+        body: JSON.stringify(signedTx),
+      }
+    );
+
+    // Errors carry `error` and a stable `code`, success carries `data`
+    const body = parseResponse(
+      apiResponseSchema(ExecuteResultSchema),
+      await response.json(),
+      "execute"
+    );
+    if (!response.ok || !body.success || !body.data) {
+      throw X402Error.fromBody(body, "Failed to execute transaction");
+    }
+
+    // The buyer owns a new receipt now
+    const { sender } = Transaction.from(signedTx.transactionBytes).getData();
+    if (sender) {
+      this.invalidateAccess(sender);
+    }
+
+    return body.data;
+  }
+
+  /**
+   * Execute a self-pay purchase straight on Sui, skipping the server
+   * Only for non-sponsored transactions, where the buyer is also the gas owner
+   */
+  async executeDirectly(
     signedTx: SignedTransactionRequest
   ): Promise<{ digest: string; status: string }> {
-    const response = await fetch(`${serverUrl}/content/${contentId}/execute`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(signedTx),
+    const result = await this.client.executeTransactionBlock({
+      transactionBlock: signedTx.transactionBytes,
+      signature: signedTx.signature,
+      options: { showEffects: true },
     });
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to execute transaction");
-    }
-
-    return response.json();
+    return {
+      digest: result.digest,
+      status:
+        result.effects?.status?.status === "success" ? "success" : "failure",
+    };
   }
 
   /**
@@ -132,11 +252,12 @@ export class X402Client {
     // 2. Parse x402 response
     const payment = this.parseX402Response(x402Response);
 
-    // 3. Sign transaction
+    // 3. Sign transaction, naming the quote it pays
     const signedTx = await this.signWithKeypair(
       payment.transactionBytes,
       keypair
     );
+    signedTx.quoteId = payment.quote?.quoteId;
 
     // 4. Submit to server
     const result = await this.submitSignedTransaction(
@@ -149,6 +270,67 @@ export class X402Client {
     return result.digest;
   }
 
+  /**
+   * Standard x402 flow: request, then retry the same URL with an X-PAYMENT header
+   * The server must be able to build the PTB, e.g. '/content/:id?address=0x...'
+   */
+  async fetchWithPayment(
+    url: string,
+    keypair: Ed25519Keypair,
+    init: RequestInit = {}
+  ): Promise<{ response: Response; settlement: SettlementResponse | null }> {
+    const initial = await fetch(url, init);
+    if (initial.status !== 402) {
+      return { response: initial, settlement: null };
+    }
+
+    const paymentRequired = parseResponse(
+      PaymentRequiredResponseSchema,
+      await initial.json(),
+      "402"
+    );
+    const requirements = paymentRequired.accepts?.find(
+      (accept) =>
+        accept.scheme === "exact" &&
+        accept.network.startsWith("sui:") &&
+        accept.extra?.transactionBytes
+    );
+
+    if (!requirements?.extra.transactionBytes) {
+      throw new X402Error(
+        paymentRequired.code ?? "PAYMENT_REQUIRED",
+        `No supported x402 payment requirements: ${paymentRequired.error}`
+      );
+    }
+
+    const payload = await this.signWithKeypair(
+      requirements.extra.transactionBytes,
+      keypair
+    );
+    payload.quoteId = requirements.extra.quote?.quoteId;
+
+    const headers = new Headers(init.headers);
+    headers.set(
+      PAYMENT_HEADER,
+      encodePaymentHeader({
+        x402Version: X402_VERSION,
+        scheme: "exact",
+        network: requirements.network,
+        payload,
+      })
+    );
+
+    const response = await fetch(url, { ...init, headers });
+    const settlementHeader = response.headers.get(PAYMENT_RESPONSE_HEADER);
+
+    return {
+      response,
+      settlement: settlementHeader
+        ? decodePaymentResponseHeader(settlementHeader)
+        : null,
+    };
+  }
+
   /**
    * Request content from server (may return 402)
    */
@@ -156,16 +338,25 @@ export class X402Client {
     serverUrl: string,
     contentId: string
   ): Promise<X402Response> {
-    const response = await fetch(`${serverUrl}/content/${contentId}`, {
-      method: "GET",
-    });
+    const response = await fetch(
+      this.routeUrl(serverUrl, "content", contentId),
+      { method: "GET" }
+    );
 
     if (response.status === 402) {
-      return response.json();
+      const body = await response.json();
+      // Without a payable PTB (e.g. low balance) the 402 only carries a code
+      if (body?.code && !body.paymentRequired) {
+        throw X402Error.fromBody(body, "Payment required");
+      }
+      return parseResponse(X402ResponseSchema, body, "402");
     }
 
     if (!response.ok) {
-      throw new Error(`Failed to request content: ${response.statusText}`);
+      throw X402Error.fromBody(
+        await response.json().catch(() => ({})),
+        `Failed to request content: ${response.statusText}`
+      );
     }
 
     // If 200, user already has access
@@ -173,12 +364,84 @@ export class X402Client {
   }
 
   /**
-   * Check if user has access to content
+   * Prove wallet ownership to the server
+   * Fetches a one-time challenge and signs it as a personal message
+   * Pass the receipt ID, if known, so the server can look it up directly
+   */
+  async proveOwnership(
+    serverUrl: string,
+    contentId: string,
+    signer: MessageSigner | Ed25519Keypair,
+    receiptId?: string
+  ): Promise<AccessProof> {
+    const address =
+      signer instanceof Ed25519Keypair ? signer.toSuiAddress() : signer.address;
+
+    const url = new URL(this.routeUrl(serverUrl, "challenge", contentId));
+    url.searchParams.set("address", address);
+    const response = await fetch(url, { method: "GET" });
+
+    if (!response.ok) {
+      throw X402Error.fromBody(
+        await response.json().catch(() => ({})),
+        `Failed to request challenge: ${response.statusText}`
+      );
+    }
+
+    const { data: challenge } = parseResponse(
+      apiResponseSchema(AccessChallengeSchema),
+      await response.json(),
+      "challenge"
+    );
+    if (!challenge) {
+      throw new X402Error("INVALID_RESPONSE", "Challenge response has no data");
+    }
+
+    const { signature } = await signer.signPersonalMessage(
+      new TextEncoder().encode(challenge.message)
+    );
+
+    return {
+      address,
+      contentId,
+      nonce: challenge.nonce,
+      signature,
+      ...(receiptId && { receiptId }),
+    };
+  }
+
+  /**
+   * Check if user has access to content: a lifetime receipt or an unexpired subscription
+   * With a receiptId, that one object is checked instead of every owned receipt
    */
-  async checkAccess(userAddress: string, contentId: string): Promise<boolean> {
+  async checkAccess(
+    userAddress: string,
+    contentId: string,
+    receiptId?: string
+  ): Promise<boolean> {
     try {
+      if (receiptId) {
+        const owned = await fetchAccessReceipt(
+          this.client,
+          receiptId,
+          this.receiptTypes()
+        );
+        return (
+          !!owned?.owner &&
+          normalizeSuiAddress(owned.owner) ===
+            normalizeSuiAddress(userAddress) &&
+          normalizeSuiObjectId(owned.receipt.contentId) ===
+            normalizeSuiObjectId(contentId) &&
+          isReceiptActive(owned.receipt)
+        );
+      }
+
       const receipts = await this.getAccessReceipts(userAddress);
-      return receipts.some((receipt) => receipt.contentId === contentId);
+      return receipts.some(
+        (receipt) =>
+          normalizeSuiObjectId(receipt.contentId) ===
+            normalizeSuiObjectId(contentId) && isReceiptActive(receipt)
+      );
     } catch (error) {
       console.error("Access check failed:", error);
       return false;
@@ -186,37 +449,15 @@ export class X402Client {
   }
 
   /**
-   * Get all access receipts owned by user
+   * Get all access and subscription receipts owned by user, across all pages
+   * Includes lapsed subscriptions, so they can be renewed
+   * Cached per address for receiptCacheTtlMs, until invalidateAccess()
    */
   async getAccessReceipts(userAddress: string): Promise<AccessReceiptData[]> {
     try {
-      const objects = await this.client.getOwnedObjects({
-        owner: userAddress,
-        filter: {
-          StructType: `${this.packageId}::${this.moduleName}::AccessReceipt`,
-        },
-        options: { showContent: true },
-      });
-
-      return objects.data
-        .filter(
-          (obj) =>
-            obj.data?.content && obj.data.content.dataType === "moveObject"
-        )
-        .map((obj) => {
-          if (obj.data?.content?.dataType !== "moveObject") {
-            throw new Error("Invalid object type");
-          }
-          const fields = obj.data.content.fields as Record<string, unknown>;
-          return {
-            id: obj.data!.objectId,
-            contentId: String(fields.content_id),
-            contentTitle: this.decodeString(fields.content_title as number[]),
-            pricePaid: String(fields.price_paid),
-            purchaser: String(fields.purchaser),
-            timestamp: String(fields.timestamp),
-          };
-        });
+      return await this.receiptCache.load(userAddress, () =>
+        fetchAccessReceipts(this.client, userAddress, this.receiptTypes())
+      );
     } catch (error) {
       console.error("Failed to fetch access receipts:", error);
       return [];
@@ -224,13 +465,17 @@ export class X402Client {
   }
 
   /**
-   * Helper: Decode vector<u8> to string
+   * Drop an address's cached receipts, e.g. after a purchase made elsewhere
    */
-  private decodeString(vec: number[]): string {
-    if (Array.isArray(vec)) {
-      return Buffer.from(vec).toString("utf8");
-    }
-    return String(vec);
+  invalidateAccess(userAddress: string): void {
+    this.receiptCache.invalidate(userAddress);
+  }
+
+  private receiptTypes(): string[] {
+    return [
+      `${this.packageId}::${this.moduleName}::AccessReceipt`,
+      `${this.packageId}::${this.moduleName}::SubscriptionReceipt`,
+    ];
   }
 
   /**
@@ -0,0 +1,71 @@
+/**
+ * Creator Move Calls
+ * The content_access calls a creator signs to manage a listing
+ * Free of any client, so wallets in the browser build the same PTB as
+ * X402Server
+ */
+
+import type { Transaction } from "@mysten/sui/transactions";
+
+/** Where content_access is published */
+export interface ContentModule {
+  packageId: string;
+  moduleName?: string; // Default: 'content_access'
+}
+
+function target(module: ContentModule, functionName: string): string {
+  return `${module.packageId}::${module.moduleName || "content_access"}::${functionName}`;
+}
+
+/**
+ * Add content_access::update_price, setting the price of future sales
+ */
+export function addUpdatePriceCall(
+  tx: Transaction,
+  module: ContentModule,
+  contentObjectId: string,
+  price: string
+): void {
+  tx.moveCall({
+    target: target(module, "update_price"),
+    arguments: [
+      tx.object(contentObjectId), // content: &mut ContentItem
+      tx.pure.u64(BigInt(price)),
+    ],
+  });
+}
+
+/**
+ * Add content_access::update_metadata, changing the title and description
+ */
+export function addUpdateMetadataCall(
+  tx: Transaction,
+  module: ContentModule,
+  contentObjectId: string,
+  title: string,
+  description: string
+): void {
+  tx.moveCall({
+    target: target(module, "update_metadata"),
+    arguments: [
+      tx.object(contentObjectId), // content: &mut ContentItem
+      tx.pure.string(title),
+      tx.pure.string(description),
+    ],
+  });
+}
+
+/**
+ * Add content_access::delist, taking content off sale for good
+ * Existing receipts keep working; new purchases abort with EDelisted
+ */
+export function addDelistCall(
+  tx: Transaction,
+  module: ContentModule,
+  contentObjectId: string
+): void {
+  tx.moveCall({
+    target: target(module, "delist"),
+    arguments: [tx.object(contentObjectId)], // content: &mut ContentItem
+  });
+}
@@ -0,0 +1,199 @@
+/**
+ * Content Encryption
+ * Premium content is sealed with a per-item AES-256-GCM key; the server
+ * releases that key wrapped for a buyer's one-time ECDH P-256 public key
+ */
+
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { X402Error } from "./errors.js";
+import type {
+  EncryptedContent,
+  EncryptedContentPayload,
+  WrappedContentKey,
+} from "./types.js";
+
+/**
+ * Request header carrying the buyer's one-time public key (base64, raw P-256)
+ * With it, paid content comes back encrypted with a wrapped key, never in plaintext
+ */
+export const CONTENT_KEY_HEADER = "X-Content-Key";
+
+const HKDF_INFO = new TextEncoder().encode("atomic402 content key v1");
+
+export interface AccessKeyPair {
+  publicKey: string; // Base64 raw P-256 point, for CONTENT_KEY_HEADER
+  privateKey: CryptoKey; // Non-extractable, never leaves the buyer
+}
+
+/**
+ * A fresh 256-bit content key
+ */
+export function generateContentKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+async function importAesKey(
+  raw: Uint8Array,
+  usage: KeyUsage[]
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    raw as Uint8Array<ArrayBuffer>,
+    "AES-GCM",
+    false,
+    usage
+  );
+}
+
+async function seal(
+  key: CryptoKey,
+  plaintext: Uint8Array
+): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    plaintext as Uint8Array<ArrayBuffer>
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function open(
+  key: CryptoKey,
+  sealed: { iv: string; ciphertext: string }
+): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv) as Uint8Array<ArrayBuffer> },
+    key,
+    fromBase64(sealed.ciphertext) as Uint8Array<ArrayBuffer>
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Encrypt premium content with its content key
+ */
+export async function encryptContent(
+  plaintext: string,
+  contentKey: Uint8Array
+): Promise<EncryptedContent> {
+  const key = await importAesKey(contentKey, ["encrypt"]);
+  return {
+    algorithm: "AES-256-GCM",
+    ...(await seal(key, new TextEncoder().encode(plaintext))),
+  };
+}
+
+/**
+ * Decrypt content with a content key held in the clear (server side)
+ */
+export async function decryptWithContentKey(
+  encrypted: EncryptedContent,
+  contentKey: Uint8Array
+): Promise<string> {
+  const key = await importAesKey(contentKey, ["decrypt"]);
+  return new TextDecoder().decode(await open(key, encrypted));
+}
+
+/**
+ * One-time ECDH key pair; send publicKey, keep privateKey to decrypt
+ */
+export async function generateAccessKeyPair(): Promise<AccessKeyPair> {
+  const pair = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    ["deriveBits"]
+  );
+  const publicKey = await crypto.subtle.exportKey("raw", pair.publicKey);
+  return {
+    publicKey: toBase64(new Uint8Array(publicKey)),
+    privateKey: pair.privateKey,
+  };
+}
+
+async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64(publicKey) as Uint8Array<ArrayBuffer>,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    []
+  );
+}
+
+/**
+ * AES key shared by two ECDH key pairs, via HKDF-SHA256
+ */
+async function deriveWrappingKey(
+  privateKey: CryptoKey,
+  peer: CryptoKey,
+  usage: KeyUsage[]
+): Promise<CryptoKey> {
+  const secret = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: peer },
+    privateKey,
+    256
+  );
+  const hkdf = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(), info: HKDF_INFO },
+    hkdf,
+    { name: "AES-GCM", length: 256 },
+    false,
+    usage
+  );
+}
+
+/**
+ * Wrap a content key so only the holder of recipientPublicKey's private key can use it
+ * Throws INVALID_REQUEST if recipientPublicKey isn't a base64 P-256 point
+ */
+export async function wrapContentKey(
+  contentKey: Uint8Array,
+  recipientPublicKey: string
+): Promise<WrappedContentKey> {
+  let recipient: CryptoKey;
+  try {
+    recipient = await importPublicKey(recipientPublicKey);
+  } catch {
+    throw new X402Error(
+      "INVALID_REQUEST",
+      "Content key must be a base64 raw P-256 public key"
+    );
+  }
+
+  const ephemeral = await generateAccessKeyPair();
+  const key = await deriveWrappingKey(ephemeral.privateKey, recipient, [
+    "encrypt",
+  ]);
+  return {
+    algorithm: "ECDH-P256-HKDF-SHA256-A256GCM",
+    ephemeralPublicKey: ephemeral.publicKey,
+    ...(await seal(key, contentKey)),
+  };
+}
+
+export async function unwrapContentKey(
+  wrapped: WrappedContentKey,
+  privateKey: CryptoKey
+): Promise<Uint8Array> {
+  const key = await deriveWrappingKey(
+    privateKey,
+    await importPublicKey(wrapped.ephemeralPublicKey),
+    ["decrypt"]
+  );
+  return open(key, wrapped);
+}
+
+/**
+ * Decrypt content released by the server for an AccessKeyPair
+ */
+export async function decryptContent(
+  payload: EncryptedContentPayload,
+  privateKey: CryptoKey
+): Promise<string> {
+  const contentKey = await unwrapContentKey(payload.key, privateKey);
+  return decryptWithContentKey(payload.blob, contentKey);
+}
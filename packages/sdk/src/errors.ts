@@ -0,0 +1,222 @@
+/**
+ * x402 SDK errors
+ * Every error carries a stable `code`, also sent in server JSON error bodies
+ */
+
+import type {
+  AccessProofFailure,
+  ApiResponse,
+  SponsorPolicyViolation,
+  SponsorRejectionReason,
+  X402ErrorCode,
+} from "./types.js";
+
+/**
+ * Base class for all SDK errors
+ */
+export class X402Error extends Error {
+  readonly code: X402ErrorCode;
+  readonly reason?: string; // Finer-grained cause, e.g. 'quote_consumed'
+
+  constructor(code: X402ErrorCode, message: string, reason?: string) {
+    super(message);
+    this.name = "X402Error";
+    this.code = code;
+    this.reason = reason;
+  }
+
+  /**
+   * Rebuild an error from a server JSON error body
+   */
+  static fromBody(
+    body: Pick<ApiResponse<unknown>, "error" | "code" | "reason">,
+    fallback: string
+  ): X402Error {
+    return new X402Error(
+      body.code ?? "INTERNAL_ERROR",
+      body.error || fallback,
+      body.reason
+    );
+  }
+}
+
+const REJECTION_CODES: Partial<Record<SponsorRejectionReason, X402ErrorCode>> =
+  {
+    unknown_quote: "QUOTE_UNKNOWN",
+    quote_expired: "QUOTE_EXPIRED",
+    quote_consumed: "QUOTE_ALREADY_USED",
+    idempotency_key_reused: "IDEMPOTENCY_KEY_REUSED",
+  };
+
+/**
+ * Thrown when the sponsor refuses to co-sign a client transaction
+ */
+export class SponsorRejectedError extends X402Error {
+  declare readonly reason: SponsorRejectionReason;
+
+  constructor(reason: SponsorRejectionReason, message: string) {
+    super(REJECTION_CODES[reason] ?? "TRANSACTION_REJECTED", message, reason);
+    this.name = "SponsorRejectedError";
+  }
+}
+
+/**
+ * Thrown when a quote is past its expiresAt
+ */
+export class QuoteExpiredError extends SponsorRejectedError {
+  constructor(message = "Quote has expired, request a new one") {
+    super("quote_expired", message);
+    this.name = "QuoteExpiredError";
+  }
+}
+
+/**
+ * Thrown when the buyer's coins of a type don't cover the price
+ */
+export class InsufficientBalanceError extends X402Error {
+  readonly coinType: string;
+  readonly required: bigint;
+  readonly available: bigint;
+  readonly shortfall: bigint;
+
+  constructor(coinType: string, required: bigint, available: bigint) {
+    super(
+      "INSUFFICIENT_BALANCE",
+      `Insufficient ${coinType} balance: need ${required}, have ${available} (short ${required - available})`
+    );
+    this.name = "InsufficientBalanceError";
+    this.coinType = coinType;
+    this.required = required;
+    this.available = available;
+    this.shortfall = required - available;
+  }
+}
+
+/**
+ * Thrown when too many access challenges are outstanding to issue another
+ */
+export class AccessChallengeLimitError extends X402Error {
+  constructor(message = "Too many outstanding challenges, try again shortly") {
+    super("RATE_LIMITED", message);
+    this.name = "AccessChallengeLimitError";
+  }
+}
+
+/**
+ * Thrown when a valid transaction is over the sponsor's spending limits
+ */
+export class SponsorPolicyError extends X402Error {
+  declare readonly reason: SponsorPolicyViolation;
+
+  constructor(reason: SponsorPolicyViolation, message: string) {
+    super(
+      reason === "sponsor_balance_low"
+        ? "SPONSOR_UNAVAILABLE"
+        : "SPONSOR_LIMIT_EXCEEDED",
+      message,
+      reason
+    );
+    this.name = "SponsorPolicyError";
+  }
+}
+
+/**
+ * Thrown when the sponsor can't pay gas right now
+ */
+export class SponsorUnavailableError extends X402Error {
+  constructor(message = "Gas sponsorship is unavailable, try again shortly") {
+    super("SPONSOR_UNAVAILABLE", message);
+    this.name = "SponsorUnavailableError";
+  }
+}
+
+/**
+ * Thrown when every sponsor gas coin is leased to an outstanding quote
+ */
+export class GasPoolExhaustedError extends SponsorUnavailableError {
+  constructor() {
+    super("No sponsor gas coins available, try again shortly");
+    this.name = "GasPoolExhaustedError";
+  }
+}
+
+/**
+ * Thrown when an address can't prove it owns an AccessReceipt
+ */
+export class AccessDeniedError extends X402Error {
+  declare readonly reason?: AccessProofFailure;
+
+  constructor(message: string, reason?: AccessProofFailure) {
+    super("ACCESS_DENIED", message, reason);
+    this.name = "AccessDeniedError";
+  }
+}
+
+/**
+ * Abort codes of the content_access Move module
+ */
+export const CONTENT_ACCESS_ABORT_CODES: Record<number, string> = {
+  0: "EInsufficientPayment",
+  1: "EContentNotFound",
+  2: "EWrongCoinType",
+  3: "ESubscriptionOnly",
+  4: "ENotSubscription",
+  5: "EReceiptMismatch",
+  6: "ENotCreator",
+  7: "EInvalidSplit",
+  8: "EDelisted",
+};
+
+/**
+ * A Move abort, decoded from Sui's execution error text
+ */
+export class MoveAbortError extends X402Error {
+  readonly abortCode: number;
+  readonly module: string;
+  readonly functionName?: string;
+  readonly constant?: string; // e.g. 'EInsufficientPayment'
+
+  constructor(
+    abortCode: number,
+    module: string,
+    functionName?: string,
+    constant?: string
+  ) {
+    const location = functionName ? `${module}::${functionName}` : module;
+    super(
+      "MOVE_ABORT",
+      `Move abort ${constant ?? abortCode} in ${location}`,
+      constant
+    );
+    this.name = "MoveAbortError";
+    this.abortCode = abortCode;
+    this.module = module;
+    this.functionName = functionName;
+    this.constant = constant;
+  }
+
+  /**
+   * Decode 'MoveAbort(MoveLocation { ... name: Identifier("m") ...
+   * function_name: Some("f") }, 0)', returns null for other errors
+   */
+  static parse(message: string): MoveAbortError | null {
+    const match =
+      /MoveAbort\(MoveLocation \{.*?name: Identifier\("(\w+)"\).*?function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)/.exec(
+        message
+      );
+    if (!match) {
+      return null;
+    }
+
+    const [, module, functionName, code] = match;
+    const abortCode = Number(code);
+    return new MoveAbortError(
+      abortCode,
+      module!,
+      functionName,
+      module === "content_access"
+        ? CONTENT_ACCESS_ABORT_CODES[abortCode]
+        : undefined
+    );
+  }
+}
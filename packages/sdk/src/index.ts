@@ -1,4 +1,17 @@
 // SDK exports
 export * from "./client.js";
+export * from "./creator.js";
+export * from "./encryption.js";
+export * from "./errors.js";
+export * from "./paywall.js";
+export * from "./policy.js";
+export * from "./pool.js";
+export * from "./proof.js";
+export * from "./quote.js";
+export * from "./receipts.js";
+export * from "./routes.js";
+export * from "./schemas.js";
 export * from "./server.js";
+export * from "./split.js";
 export * from "./types.js";
+export * from "./x402.js";
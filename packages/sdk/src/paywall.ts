@@ -0,0 +1,384 @@
+/**
+ * x402 Paywall middleware
+ * Put any route behind a Sui x402 paywall: 402 generation, X-PAYMENT
+ * settlement, and pass-through once access is granted
+ */
+
+import {
+  GasPoolExhaustedError,
+  InsufficientBalanceError,
+  SponsorPolicyError,
+} from "./errors.js";
+import type { X402Server } from "./server.js";
+import type {
+  ContentMetadata,
+  PaymentRequiredResponse,
+  SettlementResponse,
+  X402ErrorCode,
+} from "./types.js";
+import { ACCESS_PROOF_HEADER, decodeAccessProof } from "./proof.js";
+import {
+  X402_VERSION,
+  PAYMENT_HEADER,
+  PAYMENT_REQUIRED_HEADER,
+  PAYMENT_RESPONSE_HEADER,
+  decodePaymentHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader,
+} from "./x402.js";
+
+export interface PaywallOptions<Ctx = undefined> {
+  server: X402Server;
+  /** Resolve the content being sold for this request, null for 404 */
+  price: (
+    request: Request,
+    ctx: Ctx
+  ) => Promise<ContentMetadata | null> | ContentMetadata | null;
+  /** Access check, default: verify the X-Access-Proof header */
+  hasAccess?: (
+    request: Request,
+    content: ContentMetadata,
+    ctx: Ctx
+  ) => Promise<boolean>;
+  /** Buyer address used to build the PTB, default: ?address= query */
+  payer?: (request: Request, ctx: Ctx) => string | undefined;
+  /** Client IP for the sponsor policy, default: none (see trustProxy) */
+  clientIp?: (request: Request, ctx: Ctx) => string | undefined;
+  /** Behind a trusted proxy, use the first X-Forwarded-For hop as the IP */
+  trustProxy?: boolean;
+}
+
+export type PaywallDecision =
+  | {
+      granted: true;
+      content: ContentMetadata;
+      settlement?: SettlementResponse; // Set when paid by X-PAYMENT
+    }
+  | { granted: false; response: Response };
+
+function json(body: unknown, status: number, headers?: HeadersInit): Response {
+  const response = new Response(JSON.stringify(body), { status, headers });
+  response.headers.set("Content-Type", "application/json");
+  return response;
+}
+
+/**
+ * Errors that mean "no PTB for this buyer right now", not a server fault
+ */
+function isQuoteUnavailable(
+  error: unknown
+): error is
+  | InsufficientBalanceError
+  | GasPoolExhaustedError
+  | SponsorPolicyError {
+  return (
+    error instanceof InsufficientBalanceError ||
+    error instanceof GasPoolExhaustedError ||
+    error instanceof SponsorPolicyError
+  );
+}
+
+/**
+ * Decide whether a request passes the paywall
+ * Returns the blocking response (402, 400, 401, 404) when it doesn't
+ */
+export async function evaluatePaywall<Ctx>(
+  request: Request,
+  options: PaywallOptions<Ctx>,
+  ctx: Ctx
+): Promise<PaywallDecision> {
+  const { server } = options;
+
+  const content = await options.price(request, ctx);
+  if (!content) {
+    return {
+      granted: false,
+      response: json(
+        { success: false, error: "Content not found", code: "NOT_FOUND" },
+        404
+      ),
+    };
+  }
+
+  // 1. Existing access
+  if (options.hasAccess) {
+    if (await options.hasAccess(request, content, ctx)) {
+      return { granted: true, content };
+    }
+  } else {
+    const proofHeader = request.headers.get(ACCESS_PROOF_HEADER);
+    if (proofHeader) {
+      const proof = decodeAccessProof(proofHeader);
+      if (!proof) {
+        return {
+          granted: false,
+          response: json(
+            {
+              success: false,
+              error: "Malformed access proof",
+              code: "INVALID_REQUEST",
+            },
+            400
+          ),
+        };
+      }
+
+      const result = await server.verifyAccessProof(proof, content.id);
+      if (result.granted) {
+        return { granted: true, content };
+      }
+      if (result.reason !== "no_receipt") {
+        return {
+          granted: false,
+          response: json(
+            {
+              success: false,
+              error: `Invalid access proof: ${result.reason}`,
+              code: "ACCESS_DENIED",
+              reason: result.reason,
+            },
+            401
+          ),
+        };
+      }
+    }
+  }
+
+  const url = new URL(request.url);
+  // X-Forwarded-For is client-controlled unless a proxy overwrites it
+  const ip = options.clientIp
+    ? options.clientIp(request, ctx)
+    : options.trustProxy
+      ? request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+        undefined
+      : undefined;
+  const paymentRequired = async (
+    reason: string,
+    payer: string | undefined,
+    headers?: HeadersInit
+  ): Promise<Response> => {
+    let error = reason;
+    let code: X402ErrorCode = "PAYMENT_REQUIRED";
+    let requirements;
+    try {
+      requirements = await server.generatePaymentRequirements(
+        content,
+        request.url,
+        payer,
+        { ip }
+      );
+    } catch (caught) {
+      // Can't build the payer's PTB - still describe the price
+      if (!isQuoteUnavailable(caught)) throw caught;
+      error = caught.message;
+      code = caught.code;
+      requirements = await server.generatePaymentRequirements(
+        content,
+        request.url
+      );
+    }
+
+    const body: PaymentRequiredResponse = {
+      x402Version: X402_VERSION,
+      error,
+      code,
+      accepts: [requirements],
+    };
+    const response = json(body, 402, headers);
+    response.headers.set(
+      PAYMENT_REQUIRED_HEADER,
+      encodePaymentRequiredHeader(body)
+    );
+    return response;
+  };
+
+  // 2. Payment on this request
+  const paymentHeader = request.headers.get(PAYMENT_HEADER);
+  if (paymentHeader) {
+    const payment = decodePaymentHeader(paymentHeader);
+    if (!payment) {
+      return {
+        granted: false,
+        response: json(
+          {
+            x402Version: X402_VERSION,
+            error: "Malformed X-PAYMENT header",
+            code: "INVALID_REQUEST",
+            accepts: [],
+          },
+          400
+        ),
+      };
+    }
+
+    const settlement = await server.settlePayment(payment, content.id, { ip });
+    if (settlement.success) {
+      return { granted: true, content, settlement };
+    }
+
+    return {
+      granted: false,
+      response: await paymentRequired(
+        settlement.errorReason || "Payment failed",
+        settlement.payer || undefined,
+        {
+          [PAYMENT_RESPONSE_HEADER]: encodePaymentResponseHeader(settlement),
+        }
+      ),
+    };
+  }
+
+  // 3. No access - 402 Payment Required
+  const payer = options.payer
+    ? options.payer(request, ctx)
+    : url.searchParams.get("address") || undefined;
+
+  if (!payer) {
+    return {
+      granted: false,
+      response: await paymentRequired(
+        "address query parameter required to build the payment",
+        undefined
+      ),
+    };
+  }
+
+  let x402Response;
+  try {
+    x402Response = await server.generateX402Response(
+      content,
+      payer,
+      request.url,
+      { ip }
+    );
+  } catch (error) {
+    if (!isQuoteUnavailable(error)) throw error;
+    return {
+      granted: false,
+      response: await paymentRequired(error.message, undefined),
+    };
+  }
+
+  const response = json(x402Response, 402);
+  response.headers.set(
+    PAYMENT_REQUIRED_HEADER,
+    encodePaymentRequiredHeader(x402Response)
+  );
+  return { granted: false, response };
+}
+
+/**
+ * Framework-agnostic paywall: wrap a fetch-style handler
+ */
+export function x402Paywall(
+  options: PaywallOptions,
+  handler: (request: Request, content: ContentMetadata) => Promise<Response>
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const decision = await evaluatePaywall(request, options, undefined);
+    if (!decision.granted) {
+      return decision.response;
+    }
+
+    const response = await handler(request, decision.content);
+    if (decision.settlement) {
+      response.headers.set(
+        PAYMENT_RESPONSE_HEADER,
+        encodePaymentResponseHeader(decision.settlement)
+      );
+    }
+    return response;
+  };
+}
+
+// ===== Hono adapter =====
+
+export interface HonoContextLike {
+  req: { raw: Request };
+  res: Response;
+}
+
+/**
+ * Hono middleware: app.get("/content/:id", honoX402Paywall(options), handler)
+ * Pass the Hono Context type to use it in resolvers, e.g. c.req.param("id")
+ */
+export function honoX402Paywall<C extends HonoContextLike>(
+  options: PaywallOptions<C>
+): (c: C, next: () => Promise<void>) => Promise<Response | void> {
+  return async (c, next) => {
+    const decision = await evaluatePaywall(c.req.raw, options, c);
+    if (!decision.granted) {
+      return decision.response;
+    }
+
+    await next();
+    if (decision.settlement) {
+      c.res.headers.set(
+        PAYMENT_RESPONSE_HEADER,
+        encodePaymentResponseHeader(decision.settlement)
+      );
+    }
+  };
+}
+
+// ===== Express adapter =====
+
+export interface ExpressRequestLike {
+  protocol: string;
+  originalUrl: string;
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  get(name: string): string | undefined;
+}
+
+export interface ExpressResponseLike {
+  status(code: number): ExpressResponseLike;
+  setHeader(name: string, value: string): unknown;
+  send(body: string): unknown;
+}
+
+/**
+ * Express middleware: app.get("/content/:id", expressX402Paywall(options), handler)
+ */
+export function expressX402Paywall<
+  Req extends ExpressRequestLike,
+  Res extends ExpressResponseLike,
+>(
+  options: PaywallOptions<Req>
+): (req: Req, res: Res, next: (error?: unknown) => void) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined) {
+          headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+        }
+      }
+
+      const request = new Request(
+        `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+        { method: req.method, headers }
+      );
+
+      const decision = await evaluatePaywall(request, options, req);
+      if (!decision.granted) {
+        res.status(decision.response.status);
+        decision.response.headers.forEach((value, name) =>
+          res.setHeader(name, value)
+        );
+        res.send(await decision.response.text());
+        return;
+      }
+
+      if (decision.settlement) {
+        res.setHeader(
+          PAYMENT_RESPONSE_HEADER,
+          encodePaymentResponseHeader(decision.settlement)
+        );
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Sponsor Policy
+ * Spending limits for the sponsor key: per-transaction gas, daily gas per
+ * buyer address / IP / overall, allow and deny lists, and a balance floor
+ */
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { SponsorPolicyDecision } from "./types.js";
+
+export interface SponsorPolicyConfig {
+  maxGasPerTransaction?: string; // MIST
+  dailyGasPerAddress?: string; // MIST per buyer address per UTC day
+  dailyGasPerIp?: string; // MIST per client IP per UTC day
+  dailyGasGlobal?: string; // MIST across all buyers per UTC day
+  allowList?: string[]; // If set, only these addresses are sponsored
+  denyList?: string[]; // Never sponsored
+  minSponsorBalance?: string; // MIST, refuse to sponsor below this
+}
+
+export interface SponsorSpendRequest {
+  sender: string;
+  ip?: string;
+  gasBudget: bigint;
+  sponsorBalance?: bigint; // Only needed when minSponsorBalance is set
+}
+
+/**
+ * In-memory sponsor spending policy
+ * authorize() reserves the gas budget, settle() swaps it for the gas used
+ */
+export class SponsorPolicy {
+  private maxGasPerTransaction?: bigint;
+  private dailyGasPerAddress?: bigint;
+  private dailyGasPerIp?: bigint;
+  private dailyGasGlobal?: bigint;
+  private allowList?: Set<string>;
+  private denyList: Set<string>;
+  private minSponsorBalance?: bigint;
+
+  private day = "";
+  private addressSpend = new Map<string, bigint>();
+  private ipSpend = new Map<string, bigint>();
+  private globalSpend = 0n;
+
+  constructor(config: SponsorPolicyConfig = {}) {
+    const amount = (value?: string) =>
+      value === undefined ? undefined : BigInt(value);
+
+    this.maxGasPerTransaction = amount(config.maxGasPerTransaction);
+    this.dailyGasPerAddress = amount(config.dailyGasPerAddress);
+    this.dailyGasPerIp = amount(config.dailyGasPerIp);
+    this.dailyGasGlobal = amount(config.dailyGasGlobal);
+    this.allowList = config.allowList
+      ? new Set(config.allowList.map((address) => normalizeSuiAddress(address)))
+      : undefined;
+    this.denyList = new Set(
+      (config.denyList ?? []).map((address) => normalizeSuiAddress(address))
+    );
+    this.minSponsorBalance = amount(config.minSponsorBalance);
+  }
+
+  /**
+   * Whether authorize() needs the sponsor's current balance
+   */
+  requiresSponsorBalance(): boolean {
+    return this.minSponsorBalance !== undefined;
+  }
+
+  /**
+   * Check a sponsorship request against every limit
+   * On success the gas budget is counted as spent until settle() is called
+   */
+  authorize(request: SponsorSpendRequest): SponsorPolicyDecision {
+    return this.evaluate(request, true);
+  }
+
+  /**
+   * Check a request without reserving anything, e.g. before quoting it
+   */
+  check(request: SponsorSpendRequest): SponsorPolicyDecision {
+    return this.evaluate(request, false);
+  }
+
+  private evaluate(
+    request: SponsorSpendRequest,
+    reserve: boolean
+  ): SponsorPolicyDecision {
+    this.rollover();
+
+    const sender = normalizeSuiAddress(request.sender);
+    const { gasBudget } = request;
+
+    if (this.denyList.has(sender)) {
+      return {
+        allowed: false,
+        reason: "address_denied",
+        message: `Address ${sender} is not eligible for sponsored gas`,
+      };
+    }
+
+    if (this.allowList && !this.allowList.has(sender)) {
+      return {
+        allowed: false,
+        reason: "address_not_allowed",
+        message: `Address ${sender} is not on the sponsor allow list`,
+      };
+    }
+
+    if (
+      this.maxGasPerTransaction !== undefined &&
+      gasBudget > this.maxGasPerTransaction
+    ) {
+      return {
+        allowed: false,
+        reason: "transaction_gas_limit",
+        message: `Gas budget ${gasBudget} exceeds the per-transaction limit of ${this.maxGasPerTransaction}`,
+      };
+    }
+
+    if (
+      this.minSponsorBalance !== undefined &&
+      (request.sponsorBalance ?? 0n) - gasBudget < this.minSponsorBalance
+    ) {
+      return {
+        allowed: false,
+        reason: "sponsor_balance_low",
+        message: "Sponsor balance is too low, try again later",
+      };
+    }
+
+    const addressSpent = this.addressSpend.get(sender) ?? 0n;
+    if (
+      this.dailyGasPerAddress !== undefined &&
+      addressSpent + gasBudget > this.dailyGasPerAddress
+    ) {
+      return {
+        allowed: false,
+        reason: "address_daily_limit",
+        message: `Daily sponsored gas limit reached for ${sender}`,
+      };
+    }
+
+    const ipSpent = request.ip ? (this.ipSpend.get(request.ip) ?? 0n) : 0n;
+    if (
+      request.ip &&
+      this.dailyGasPerIp !== undefined &&
+      ipSpent + gasBudget > this.dailyGasPerIp
+    ) {
+      return {
+        allowed: false,
+        reason: "ip_daily_limit",
+        message: "Daily sponsored gas limit reached for this IP",
+      };
+    }
+
+    if (
+      this.dailyGasGlobal !== undefined &&
+      this.globalSpend + gasBudget > this.dailyGasGlobal
+    ) {
+      return {
+        allowed: false,
+        reason: "global_daily_limit",
+        message: "Daily sponsored gas limit reached, try again tomorrow",
+      };
+    }
+
+    if (!reserve) {
+      return { allowed: true };
+    }
+
+    // Reserve the full budget so concurrent requests can't overshoot
+    this.addressSpend.set(sender, addressSpent + gasBudget);
+    if (request.ip) {
+      this.ipSpend.set(request.ip, ipSpent + gasBudget);
+    }
+    this.globalSpend += gasBudget;
+
+    return { allowed: true };
+  }
+
+  /**
+   * Replace an authorized reservation with the gas actually used
+   */
+  settle(request: SponsorSpendRequest, gasUsed: bigint): void {
+    // Reservations from a previous day were already cleared
+    if (this.day !== currentDay()) {
+      this.rollover();
+      return;
+    }
+
+    const delta = gasUsed - request.gasBudget;
+    const sender = normalizeSuiAddress(request.sender);
+
+    const adjust = (spent: bigint) => (spent + delta > 0n ? spent + delta : 0n);
+    this.addressSpend.set(sender, adjust(this.addressSpend.get(sender) ?? 0n));
+    if (request.ip) {
+      this.ipSpend.set(request.ip, adjust(this.ipSpend.get(request.ip) ?? 0n));
+    }
+    this.globalSpend = adjust(this.globalSpend);
+  }
+
+  /**
+   * Reset the daily counters at UTC midnight
+   */
+  private rollover(): void {
+    const today = currentDay();
+    if (this.day !== today) {
+      this.day = today;
+      this.addressSpend.clear();
+      this.ipSpend.clear();
+      this.globalSpend = 0n;
+    }
+  }
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Factory function for easy initialization
+ */
+export function createSponsorPolicy(
+  config?: SponsorPolicyConfig
+): SponsorPolicy {
+  return new SponsorPolicy(config);
+}
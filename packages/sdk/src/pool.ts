@@ -0,0 +1,320 @@
+/**
+ * Sponsor Gas-Coin Pool
+ * Keeps the sponsor balance split into N coins and leases one per quote,
+ * so concurrent sponsored transactions never share a gas object
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import type { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiObjectId, SUI_TYPE_ARG } from "@mysten/sui/utils";
+import { GasPoolExhaustedError, SponsorPolicyError } from "./errors.js";
+
+export interface GasCoinPoolConfig {
+  suiClient: SuiClient;
+  sponsorKeypair: Ed25519Keypair;
+  size?: number; // Number of gas coins, default: 10
+  coinBalance?: string; // Target MIST per coin, default: 0.2 SUI
+  leaseTtlMs?: number; // Longest a coin is held, default: 2 minutes
+  maxLeasesPerClient?: number; // Open quotes per buyer address or IP, default: 2
+  rebalanceIntervalMs?: number; // Default: 5 minutes
+}
+
+export interface GasCoinLeaseOptions {
+  ttlMs?: number; // Capped at leaseTtlMs, e.g. the quote's lifetime
+  clients?: string[]; // Buyer address and IP, each limited to maxLeasesPerClient
+}
+
+export interface GasCoinRef {
+  objectId: string;
+  version: string;
+  digest: string;
+}
+
+export interface GasCoinLease {
+  coin: GasCoinRef;
+  expiresAt: number;
+}
+
+interface PoolEntry {
+  coin: GasCoinRef;
+  balance: bigint;
+  leasedUntil?: number;
+  transactionDigest?: string; // Quote the coin pays for, once built
+  clients?: string[];
+}
+
+/**
+ * Lease-based pool of sponsor gas coins
+ * Leases expire on their own; release() frees a coin as soon as it's used
+ * Each lease is bound to the digest of the one transaction it may pay for
+ */
+export class GasCoinPool {
+  private client: SuiClient;
+  private sponsorKeypair: Ed25519Keypair;
+  private size: number;
+  private coinBalance: bigint;
+  private leaseTtlMs: number;
+  private maxLeasesPerClient: number;
+  private rebalanceIntervalMs: number;
+  private entries = new Map<string, PoolEntry>();
+  private timer?: ReturnType<typeof setInterval>;
+  private rebalancing?: Promise<void>;
+
+  constructor(config: GasCoinPoolConfig) {
+    this.client = config.suiClient;
+    this.sponsorKeypair = config.sponsorKeypair;
+    this.size = config.size ?? 10;
+    this.coinBalance = BigInt(config.coinBalance ?? "200000000");
+    this.leaseTtlMs = config.leaseTtlMs ?? 2 * 60 * 1000;
+    this.maxLeasesPerClient = config.maxLeasesPerClient ?? 2;
+    this.rebalanceIntervalMs = config.rebalanceIntervalMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Load the sponsor's coins, split them into the pool, and start rebalancing
+   */
+  async start(): Promise<void> {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.rebalance().catch((error) =>
+        console.error("Gas pool rebalance failed:", error)
+      );
+    }, this.rebalanceIntervalMs);
+    // Don't keep the process alive just for rebalancing
+    (this.timer as { unref?: () => void }).unref?.();
+
+    await this.rebalance();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Lease a free gas coin until the quote it pays for expires
+   * Throws GasPoolExhaustedError when every coin is leased, and
+   * SponsorPolicyError when a client already holds its share of leases
+   */
+  async lease(options: GasCoinLeaseOptions = {}): Promise<GasCoinLease> {
+    const now = Date.now();
+    const clients = options.clients ?? [];
+
+    const live = [...this.entries.values()].filter(
+      (entry) => entry.leasedUntil !== undefined && entry.leasedUntil > now
+    );
+    for (const client of clients) {
+      const held = live.filter((entry) => entry.clients?.includes(client));
+      if (held.length >= this.maxLeasesPerClient) {
+        throw new SponsorPolicyError(
+          "quote_limit",
+          "Too many open quotes, pay or wait for one to expire"
+        );
+      }
+    }
+
+    for (const entry of this.entries.values()) {
+      if (entry.leasedUntil !== undefined && entry.leasedUntil > now) {
+        continue;
+      }
+
+      // Claim before the await so concurrent calls skip this coin
+      const expiresAt =
+        now + Math.min(options.ttlMs ?? this.leaseTtlMs, this.leaseTtlMs);
+      entry.leasedUntil = expiresAt;
+      entry.transactionDigest = undefined;
+      entry.clients = clients;
+
+      // The coin's version changes every time it pays for gas
+      let object;
+      try {
+        object = await this.client.getObject({ id: entry.coin.objectId });
+      } catch (error) {
+        entry.leasedUntil = undefined;
+        throw error;
+      }
+      if (!object.data) {
+        this.entries.delete(entry.coin.objectId);
+        continue;
+      }
+      entry.coin = {
+        objectId: object.data.objectId,
+        version: object.data.version,
+        digest: object.data.digest,
+      };
+
+      return { coin: { ...entry.coin }, expiresAt };
+    }
+
+    throw new GasPoolExhaustedError();
+  }
+
+  /**
+   * Tie a leased coin to the quoted transaction, until the quote expires
+   */
+  bind(objectId: string, transactionDigest: string, expiresAt: number): void {
+    const entry = this.entries.get(normalizeSuiObjectId(objectId));
+    if (entry?.leasedUntil !== undefined && entry.leasedUntil > Date.now()) {
+      entry.transactionDigest = transactionDigest;
+      entry.leasedUntil = Math.min(entry.leasedUntil, expiresAt);
+    }
+  }
+
+  /**
+   * Keep a submitted transaction's coin for leaseTtlMs, while it's in flight
+   * False if the lease already lapsed or belongs to another transaction
+   */
+  hold(objectId: string, transactionDigest: string): boolean {
+    const entry = this.entries.get(normalizeSuiObjectId(objectId));
+    if (!entry || !this.isLeased(objectId, transactionDigest)) {
+      return false;
+    }
+    entry.leasedUntil = Date.now() + this.leaseTtlMs;
+    entry.clients = undefined;
+    return true;
+  }
+
+  /**
+   * Return a coin to the pool, e.g. once its transaction has executed
+   * With a digest, only if the coin is still leased for that transaction
+   */
+  release(objectId: string, transactionDigest?: string): void {
+    const entry = this.entries.get(normalizeSuiObjectId(objectId));
+    if (
+      entry &&
+      (transactionDigest === undefined ||
+        entry.transactionDigest === transactionDigest)
+    ) {
+      entry.leasedUntil = undefined;
+      entry.transactionDigest = undefined;
+      entry.clients = undefined;
+    }
+  }
+
+  /**
+   * Whether a coin is leased for this transaction, i.e. backs its live quote
+   */
+  isLeased(objectId: string, transactionDigest: string): boolean {
+    const entry = this.entries.get(normalizeSuiObjectId(objectId));
+    return (
+      entry?.transactionDigest === transactionDigest &&
+      entry.leasedUntil !== undefined &&
+      entry.leasedUntil > Date.now()
+    );
+  }
+
+  /**
+   * Merge the free coins and split them back into `size` coins of
+   * `coinBalance`, leaving leased coins untouched
+   */
+  async rebalance(): Promise<void> {
+    // One rebalance at a time, the free coins are its gas payment
+    if (!this.rebalancing) {
+      this.rebalancing = this.doRebalance().finally(() => {
+        this.rebalancing = undefined;
+      });
+    }
+    return this.rebalancing;
+  }
+
+  private async doRebalance(): Promise<void> {
+    await this.refresh();
+
+    const now = Date.now();
+    const free = [...this.entries.values()].filter(
+      (entry) => entry.leasedUntil === undefined || entry.leasedUntil <= now
+    );
+    const wanted = this.size - (this.entries.size - free.length);
+    if (free.length === 0 || wanted <= 0) {
+      return;
+    }
+
+    const low = this.coinBalance / 2n;
+    if (free.length === wanted && free.every((entry) => entry.balance >= low)) {
+      return;
+    }
+
+    // The gas coin itself stays in the pool with the remainder
+    const total = free.reduce((sum, entry) => sum + entry.balance, 0n);
+    const splits = Math.min(wanted - 1, Number(total / this.coinBalance) - 1);
+    if (splits <= 0 && free.length === 1) {
+      return;
+    }
+
+    // Hold the free coins while the rebalance uses them
+    for (const entry of free) {
+      entry.leasedUntil = Number.MAX_SAFE_INTEGER;
+    }
+
+    try {
+      const sponsor = this.sponsorKeypair.toSuiAddress();
+      const tx = new Transaction();
+      tx.setSender(sponsor);
+      tx.setGasPayment(free.map((entry) => entry.coin));
+      if (splits > 0) {
+        const coins = tx.splitCoins(
+          tx.gas,
+          Array.from({ length: splits }, () => this.coinBalance)
+        );
+        tx.transferObjects(
+          Array.from({ length: splits }, (_, index) => coins[index]!),
+          sponsor
+        );
+      }
+
+      const result = await this.client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: this.sponsorKeypair,
+      });
+      await this.client.waitForTransaction({ digest: result.digest });
+    } finally {
+      for (const entry of free) {
+        entry.leasedUntil = undefined;
+      }
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Reload the sponsor's SUI coins, keeping existing leases
+   */
+  private async refresh(): Promise<void> {
+    const owner = this.sponsorKeypair.toSuiAddress();
+    const seen = new Set<string>();
+
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await this.client.getCoins({
+        owner,
+        coinType: SUI_TYPE_ARG,
+        cursor,
+      });
+      for (const coin of page.data) {
+        const objectId = normalizeSuiObjectId(coin.coinObjectId);
+        seen.add(objectId);
+        this.entries.set(objectId, {
+          ...this.entries.get(objectId),
+          coin: { objectId, version: coin.version, digest: coin.digest },
+          balance: BigInt(coin.balance),
+        });
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    // Coins merged away by a rebalance
+    for (const objectId of this.entries.keys()) {
+      if (!seen.has(objectId)) {
+        this.entries.delete(objectId);
+      }
+    }
+  }
+}
+
+/**
+ * Factory function for easy initialization
+ */
+export function createGasCoinPool(config: GasCoinPoolConfig): GasCoinPool {
+  return new GasCoinPool(config);
+}
@@ -0,0 +1,52 @@
+/**
+ * x402 Access Proof helpers
+ * Shared by client and server for the challenge/response ownership flow
+ */
+
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import * as v from "valibot";
+import { AccessProofSchema } from "./schemas.js";
+import type { AccessProof } from "./types.js";
+
+/**
+ * Request header carrying an encoded AccessProof
+ */
+export const ACCESS_PROOF_HEADER = "X-Access-Proof";
+
+/**
+ * Build the personal message a wallet signs to prove it owns an address
+ */
+export function buildAccessChallengeMessage(
+  address: string,
+  contentId: string,
+  nonce: string,
+  expiresAt: number
+): string {
+  return [
+    "atomic402 access proof",
+    `Address: ${address}`,
+    `Content: ${contentId}`,
+    `Nonce: ${nonce}`,
+    `Expires At: ${new Date(expiresAt).toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Encode a proof for the ACCESS_PROOF_HEADER (base64 JSON)
+ */
+export function encodeAccessProof(proof: AccessProof): string {
+  return toBase64(new TextEncoder().encode(JSON.stringify(proof)));
+}
+
+/**
+ * Decode an ACCESS_PROOF_HEADER value, returns null if malformed
+ */
+export function decodeAccessProof(value: string): AccessProof | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(fromBase64(value)));
+    const result = v.safeParse(AccessProofSchema, parsed);
+    return result.success ? result.output : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * x402 Payment Quotes
+ * Every PTB the server hands out is quoted: an id, an expiry, and a server
+ * signature over the transaction digest, kept in a short-lived store
+ */
+
+import { Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519";
+import { fromBase64 } from "@mysten/sui/utils";
+import type { PaymentQuote } from "./types.js";
+
+export interface StoredQuote extends PaymentQuote {
+  consumed: boolean;
+}
+
+/**
+ * Where issued quotes live until they expire
+ * consume() must be atomic so a quote can only be spent once
+ */
+export interface QuoteStore {
+  save(quote: PaymentQuote): Promise<void>;
+  get(transactionDigest: string): Promise<StoredQuote | null>;
+  /** Mark the quote spent, false if it already was (or is unknown) */
+  consume(transactionDigest: string): Promise<boolean>;
+}
+
+/**
+ * Build the message the server signs for a quote
+ */
+export function buildQuoteMessage(
+  quoteId: string,
+  transactionDigest: string,
+  expiresAt: number
+): string {
+  return [
+    "atomic402 payment quote",
+    `Quote: ${quoteId}`,
+    `Transaction: ${transactionDigest}`,
+    `Expires At: ${new Date(expiresAt).toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Check a quote's signature, e.g. against a server key pinned by the client
+ */
+export async function verifyQuoteSignature(
+  quote: PaymentQuote,
+  expectedPublicKey: string = quote.publicKey
+): Promise<boolean> {
+  if (quote.publicKey !== expectedPublicKey) {
+    return false;
+  }
+
+  try {
+    const publicKey = new Ed25519PublicKey(quote.publicKey);
+    const message = buildQuoteMessage(
+      quote.quoteId,
+      quote.transactionDigest,
+      quote.expiresAt
+    );
+    return await publicKey.verify(
+      new TextEncoder().encode(message),
+      fromBase64(quote.signature)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Single-process quote store, pruned as new quotes come in
+ */
+export class InMemoryQuoteStore implements QuoteStore {
+  private quotes = new Map<string, StoredQuote>();
+
+  async save(quote: PaymentQuote): Promise<void> {
+    const now = Date.now();
+    for (const [digest, stored] of this.quotes) {
+      if (stored.expiresAt <= now) {
+        this.quotes.delete(digest);
+      }
+    }
+
+    this.quotes.set(quote.transactionDigest, { ...quote, consumed: false });
+  }
+
+  async get(transactionDigest: string): Promise<StoredQuote | null> {
+    const stored = this.quotes.get(transactionDigest);
+    return stored ? { ...stored } : null;
+  }
+
+  async consume(transactionDigest: string): Promise<boolean> {
+    const stored = this.quotes.get(transactionDigest);
+    if (!stored || stored.consumed) {
+      return false;
+    }
+    stored.consumed = true;
+    return true;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Access Receipt Lookups
+ * Paginated owned-receipt reads, direct lookups by receipt ID,
+ * and a per-address TTL cache shared by the client and server SDKs
+ * Receipts are lifetime AccessReceipts or expiring SubscriptionReceipts
+ */
+
+import type { SuiClient, SuiObjectResponse } from "@mysten/sui/client";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import type { AccessReceiptData } from "./types.js";
+
+export interface OwnedAccessReceipt {
+  receipt: AccessReceiptData;
+  owner: string | null; // Address owner, null if wrapped or shared
+}
+
+/**
+ * Decode a receipt object, or null if it isn't one of receiptTypes
+ */
+function toReceipt(
+  object: SuiObjectResponse,
+  receiptTypes: string[]
+): AccessReceiptData | null {
+  const content = object.data?.content;
+  if (
+    content?.dataType !== "moveObject" ||
+    !receiptTypes.some(
+      (type) => normalizeStructTag(type) === normalizeStructTag(content.type)
+    )
+  ) {
+    return null;
+  }
+
+  const fields = content.fields as Record<string, unknown>;
+  return {
+    id: object.data!.objectId,
+    contentId: String(fields.content_id),
+    contentTitle: decodeString(fields.content_title),
+    pricePaid: String(fields.price_paid),
+    purchaser: String(fields.purchaser),
+    timestamp: String(fields.timestamp),
+    expiresAt:
+      fields.expires_at === undefined ? undefined : String(fields.expires_at),
+  };
+}
+
+/**
+ * Whether a receipt still grants access: lifetime, or not yet expired
+ */
+export function isReceiptActive(
+  receipt: AccessReceiptData,
+  now: number = Date.now()
+): boolean {
+  return receipt.expiresAt === undefined || now < Number(receipt.expiresAt);
+}
+
+/**
+ * vector<u8> fields come back from JSON-RPC as arrays of bytes
+ */
+function decodeString(value: unknown): string {
+  return Array.isArray(value)
+    ? new TextDecoder().decode(Uint8Array.from(value as number[]))
+    : String(value ?? "");
+}
+
+/**
+ * Every receipt an address owns, following getOwnedObjects' cursor
+ * Expired subscriptions are included; filter with isReceiptActive
+ */
+export async function fetchAccessReceipts(
+  client: SuiClient,
+  owner: string,
+  receiptTypes: string[]
+): Promise<AccessReceiptData[]> {
+  const receipts: AccessReceiptData[] = [];
+  let cursor: string | null | undefined;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: {
+        MatchAny: receiptTypes.map((type) => ({ StructType: type })),
+      },
+      options: { showContent: true },
+      cursor,
+    });
+
+    for (const object of page.data) {
+      const receipt = toReceipt(object, receiptTypes);
+      if (receipt) receipts.push(receipt);
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return receipts;
+}
+
+/**
+ * One receipt by object ID, with its current owner
+ * Null if the object doesn't exist or isn't one of receiptTypes
+ */
+export async function fetchAccessReceipt(
+  client: SuiClient,
+  receiptId: string,
+  receiptTypes: string[]
+): Promise<OwnedAccessReceipt | null> {
+  const object = await client.getObject({
+    id: receiptId,
+    options: { showContent: true, showOwner: true },
+  });
+
+  const receipt = toReceipt(object, receiptTypes);
+  if (!receipt) return null;
+
+  const owner = object.data?.owner;
+  return {
+    receipt,
+    owner:
+      owner && typeof owner === "object" && "AddressOwner" in owner
+        ? owner.AddressOwner
+        : null,
+  };
+}
+
+interface CacheEntry {
+  receipts: AccessReceiptData[];
+  expiresAt: number;
+}
+
+/**
+ * Per-address cache of owned receipts
+ * Concurrent loads share one fetch; invalidate() after a purchase
+ */
+export class ReceiptCache {
+  private entries = new Map<string, CacheEntry>();
+  private loading = new Map<string, Promise<AccessReceiptData[]>>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  async load(
+    address: string,
+    fetchReceipts: () => Promise<AccessReceiptData[]>
+  ): Promise<AccessReceiptData[]> {
+    const key = normalizeSuiAddress(address);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.receipts;
+    }
+
+    const pending = this.loading.get(key);
+    if (pending) return pending;
+
+    const load = fetchReceipts().then(
+      (receipts) => {
+        // Only cache if nothing invalidated the address while loading
+        if (this.loading.get(key) === load) {
+          this.loading.delete(key);
+          if (this.ttlMs > 0) {
+            this.entries.set(key, {
+              receipts,
+              expiresAt: Date.now() + this.ttlMs,
+            });
+          }
+        }
+        return receipts;
+      },
+      (error: unknown) => {
+        if (this.loading.get(key) === load) {
+          this.loading.delete(key);
+        }
+        throw error;
+      }
+    );
+    this.loading.set(key, load);
+    return load;
+  }
+
+  invalidate(address: string): void {
+    const key = normalizeSuiAddress(address);
+    this.entries.delete(key);
+    this.loading.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.loading.clear();
+  }
+}
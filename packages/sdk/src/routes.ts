@@ -0,0 +1,32 @@
+/**
+ * x402 HTTP routes
+ * Hono-style path templates for the endpoints the client calls
+ */
+
+export interface X402Routes {
+  content: string; // GET, the paid resource or a 402
+  challenge: string; // GET, access proof challenge
+  execute: string; // POST, signed purchase transaction
+}
+
+export const DEFAULT_X402_ROUTES = {
+  content: "/content/:id",
+  challenge: "/content/:id/challenge",
+  execute: "/content/:id/execute",
+} as const satisfies X402Routes;
+
+/**
+ * Fill the ':name' segments of a path template, URL-encoding each value
+ */
+export function buildPath(
+  template: string,
+  params: Record<string, string> = {}
+): string {
+  return template.replace(/:(\w+)/g, (_segment, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter '${name}' for ${template}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * Runtime schemas for the x402 wire format and API bodies
+ * The matching types in types.ts are inferred from these
+ */
+
+import * as v from "valibot";
+
+/** Integer amount in a coin's smallest unit, as a string */
+const AmountSchema = v.pipe(v.string(), v.regex(/^\d+$/, "Invalid amount"));
+
+const NonEmptySchema = v.pipe(v.string(), v.nonEmpty());
+
+export const X402ErrorCodeSchema = v.picklist([
+  "INVALID_REQUEST",
+  "INVALID_RESPONSE",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "NOT_CONFIGURED",
+  "INVALID_CONTENT",
+  "PAYMENT_REQUIRED",
+  "INSUFFICIENT_BALANCE",
+  "ACCESS_DENIED",
+  "RATE_LIMITED",
+  "QUOTE_UNKNOWN",
+  "QUOTE_EXPIRED",
+  "QUOTE_ALREADY_USED",
+  "TRANSACTION_REJECTED",
+  "IDEMPOTENCY_KEY_REUSED",
+  "SPONSOR_LIMIT_EXCEEDED",
+  "SPONSOR_UNAVAILABLE",
+  "MOVE_ABORT",
+  "TRANSACTION_FAILED",
+  "INTERNAL_ERROR",
+]);
+
+/** Server-issued, expiring quote bound to one transaction */
+export const PaymentQuoteSchema = v.object({
+  quoteId: v.string(),
+  transactionDigest: v.string(), // Digest of the quoted transaction bytes
+  expiresAt: v.number(), // Unix ms
+  signature: v.string(), // Base64 ed25519 signature over buildQuoteMessage()
+  publicKey: v.string(), // Base64 ed25519 key of the quote signer
+});
+
+/** A co-recipient's cut of every payment, in basis points of the price */
+export const RevenueShareSchema = v.object({
+  recipient: v.string(), // Sui address
+  bps: v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(10000)),
+});
+
+/** What one recipient is paid out of a purchase, creator included */
+export const RevenuePayoutSchema = v.object({
+  ...RevenueShareSchema.entries,
+  amount: AmountSchema,
+});
+
+/** One item of a bundle purchase, and who its share of the total goes to */
+export const BundleItemSchema = v.object({
+  contentId: v.string(),
+  title: v.string(),
+  price: AmountSchema,
+  payTo: v.string(), // The item's creator
+  split: v.optional(v.array(RevenuePayoutSchema)), // Revenue-shared items only
+});
+
+// ===== Standard x402 wire format =====
+
+export const PaymentRequirementsSchema = v.object({
+  scheme: v.literal("exact"),
+  network: v.string(), // e.g. 'sui:testnet'
+  maxAmountRequired: AmountSchema, // In the asset's smallest unit
+  resource: v.string(), // URL of the paid resource
+  description: v.string(),
+  mimeType: v.string(),
+  payTo: v.string(), // Sui address, or PAY_TO_ITEMS for multi-creator bundles
+  maxTimeoutSeconds: v.number(),
+  asset: v.string(), // Coin type, e.g. '0x2::sui::SUI'
+  extra: v.object({
+    transactionBytes: v.optional(v.string()), // Base64 PTB to sign, when the payer is known
+    quote: v.optional(PaymentQuoteSchema), // Set with transactionBytes
+    split: v.optional(v.array(RevenuePayoutSchema)), // How payTo's amount is shared, if it is
+    items: v.optional(v.array(BundleItemSchema)), // Bundles: the total, item by item
+  }),
+});
+
+/** 402 body, also sent base64 encoded in the PAYMENT-REQUIRED header */
+export const PaymentRequiredResponseSchema = v.object({
+  x402Version: v.literal(1),
+  error: v.string(),
+  code: v.optional(X402ErrorCodeSchema), // Why no payable PTB, e.g. 'INSUFFICIENT_BALANCE'
+  accepts: v.array(PaymentRequirementsSchema),
+});
+
+export const X402ResponseSchema = v.object({
+  ...PaymentRequiredResponseSchema.entries,
+  statusCode: v.literal(402),
+  message: v.string(),
+  paymentRequired: v.object({
+    amount: AmountSchema, // Amount in MIST (smallest unit)
+    recipient: v.string(), // Sui address
+    transactionBytes: v.string(), // Base64 encoded transaction
+    description: v.string(),
+    coinType: v.string(), // Payment coin, e.g. '0x2::sui::SUI'
+    quote: PaymentQuoteSchema,
+    split: v.optional(v.array(RevenuePayoutSchema)), // Set for revenue-shared content
+    items: v.optional(v.array(BundleItemSchema)), // Set for bundles
+  }),
+});
+
+export const SignedTransactionRequestSchema = v.object({
+  transactionBytes: NonEmptySchema,
+  signature: NonEmptySchema,
+  publicKey: NonEmptySchema,
+  quoteId: v.optional(v.string()), // Checked against the quote for these bytes if sent
+});
+
+/** Decoded X-PAYMENT request header */
+export const PaymentPayloadSchema = v.object({
+  x402Version: v.literal(1),
+  scheme: v.literal("exact"),
+  network: v.string(),
+  payload: SignedTransactionRequestSchema,
+});
+
+/** Decoded X-PAYMENT-RESPONSE header */
+export const SettlementResponseSchema = v.object({
+  success: v.boolean(),
+  transaction: v.string(), // Transaction digest
+  network: v.string(),
+  payer: v.string(),
+  errorReason: v.optional(v.string()),
+});
+
+// ===== Content and access =====
+
+export const ContentMetadataSchema = v.object({
+  id: v.string(),
+  title: v.string(),
+  description: v.string(),
+  price: AmountSchema, // In the coin's smallest unit (MIST for SUI)
+  contentUrl: v.string(),
+  creator: v.string(),
+  coinType: v.optional(v.string()), // Default: '0x2::sui::SUI'
+  subscriptionPeriodMs: v.optional(AmountSchema), // Set for subscriptions: access one payment buys
+  recipients: v.optional(
+    v.pipe(
+      v.array(RevenueShareSchema),
+      v.check(
+        (shares) => shares.reduce((total, { bps }) => total + bps, 0) <= 10000,
+        "Revenue shares exceed 10000 bps"
+      )
+    )
+  ), // Co-recipients of each payment; the creator keeps the remainder
+});
+
+export const ContentItemDetailsSchema = v.object({
+  ...ContentMetadataSchema.entries,
+  objectType: v.string(), // Fully qualified Move type of the object
+  delisted: v.boolean(), // Taken off sale by the creator
+});
+
+export const AccessReceiptDataSchema = v.object({
+  id: v.string(),
+  contentId: v.string(),
+  contentTitle: v.string(),
+  pricePaid: AmountSchema,
+  purchaser: v.string(),
+  timestamp: v.string(), // Unix ms of the purchase or latest renewal
+  expiresAt: v.optional(v.string()), // Unix ms, set on SubscriptionReceipts only
+  coinType: v.optional(v.string()), // Payment coin, when the server knows the content
+});
+
+export const TransactionResultSchema = v.object({
+  digest: v.string(),
+  status: v.picklist(["success", "failure"]),
+  error: v.optional(v.string()), // Execution error on failure, e.g. a MoveAbort
+  effects: v.optional(v.any()),
+});
+
+export const AccessChallengeSchema = v.object({
+  address: v.string(), // Wallet being challenged
+  contentId: v.string(),
+  nonce: v.string(),
+  message: v.string(), // Personal message the wallet must sign
+  expiresAt: v.number(), // Unix ms
+});
+
+export const AccessProofSchema = v.object({
+  address: v.string(),
+  contentId: v.string(),
+  nonce: v.string(),
+  signature: v.string(), // Serialized personal message signature
+  receiptId: v.optional(v.string()), // Receipt to check directly, instead of every owned one
+});
+
+// ===== Content encryption =====
+
+export const EncryptedContentSchema = v.object({
+  algorithm: v.literal("AES-256-GCM"),
+  iv: v.string(), // Base64
+  ciphertext: v.string(), // Base64, GCM tag appended
+});
+
+export const WrappedContentKeySchema = v.object({
+  algorithm: v.literal("ECDH-P256-HKDF-SHA256-A256GCM"),
+  ephemeralPublicKey: v.string(), // Base64 raw P-256 point, server side
+  iv: v.string(),
+  ciphertext: v.string(), // Content key sealed for the buyer's public key
+});
+
+export const EncryptedContentPayloadSchema = v.object({
+  blob: EncryptedContentSchema,
+  key: WrappedContentKeySchema,
+});
+
+// ===== API envelope =====
+
+const ApiEnvelopeEntries = {
+  success: v.boolean(),
+  error: v.optional(v.string()), // Human-readable message
+  code: v.optional(X402ErrorCodeSchema), // Set on every error response
+  reason: v.optional(v.string()), // Finer-grained cause, e.g. 'quote_consumed'
+};
+
+/** `{ success, error?, code?, reason? }` around every JSON API body */
+export const ApiEnvelopeSchema = v.object(ApiEnvelopeEntries);
+
+export const X402ErrorBodySchema = v.object({
+  success: v.literal(false),
+  error: v.string(),
+  code: X402ErrorCodeSchema,
+  reason: v.optional(v.string()),
+});
+
+/**
+ * Envelope schema with `data` checked against the given schema
+ */
+export function apiResponseSchema<TData extends v.GenericSchema>(data: TData) {
+  return v.object({ ...ApiEnvelopeEntries, data: v.optional(data) });
+}
+
+/** Data of a successful POST /content/:id/execute */
+export const ExecuteResultSchema = v.object({
+  digest: v.string(),
+  status: v.picklist(["success", "failure"]),
+  explorer: v.optional(v.string()),
+});
+
+/**
+ * One-line description of a failed parse, e.g. 'price: Invalid amount'
+ */
+export function describeIssues(
+  issues: [v.BaseIssue<unknown>, ...v.BaseIssue<unknown>[]]
+): string {
+  const [issue] = issues;
+  const path = v.getDotPath(issue);
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
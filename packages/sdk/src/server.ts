@@ -3,13 +3,76 @@
  * Build programmable transaction blocks (PTBs) and generate x402 responses
  */
 
-import { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
-import { Transaction } from "@mysten/sui/transactions";
+import {
+  JsonRpcError,
+  SuiClient,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  normalizeSuiObjectId,
+  toBase64,
+  toHex,
+  SUI_TYPE_ARG,
+} from "@mysten/sui/utils";
+import {
+  verifyPersonalMessageSignature,
+  verifyTransactionSignature,
+} from "@mysten/sui/verify";
+import {
+  AccessChallengeLimitError,
+  InsufficientBalanceError,
+  MoveAbortError,
+  QuoteExpiredError,
+  SponsorPolicyError,
+  SponsorRejectedError,
+  SponsorUnavailableError,
+  X402Error,
+} from "./errors.js";
+import {
+  addDelistCall,
+  addUpdateMetadataCall,
+  addUpdatePriceCall,
+  type ContentModule,
+} from "./creator.js";
+import type { SponsorPolicy, SponsorSpendRequest } from "./policy.js";
+import type { GasCoinPool } from "./pool.js";
+import { buildAccessChallengeMessage } from "./proof.js";
+import {
+  fetchAccessReceipt,
+  fetchAccessReceipts,
+  isReceiptActive,
+  ReceiptCache,
+} from "./receipts.js";
+import {
+  buildQuoteMessage,
+  InMemoryQuoteStore,
+  type QuoteStore,
+} from "./quote.js";
+import { splitRevenue } from "./split.js";
+import { PAY_TO_ITEMS, X402_VERSION } from "./x402.js";
 import type {
   X402Response,
   ContentMetadata,
+  ContentItemDetails,
   TransactionResult,
+  AccessChallenge,
+  AccessProof,
+  AccessProofResult,
+  PaymentQuote,
+  SponsorValidationResult,
+  PaymentRequirements,
+  PaymentPayload,
+  SettlementResponse,
+  PurchaseContext,
+  AccessReceiptData,
+  BundleItem,
+  RevenuePayout,
+  RevenueShare,
 } from "./types.js";
 
 export interface ServerConfig {
@@ -17,6 +80,31 @@ export interface ServerConfig {
   packageId: string;
   sponsorKeypair?: Ed25519Keypair; // Optional: for gasless transactions
   contentModule?: string; // Default: 'content_access'
+  network?: string; // Default: 'testnet', advertised as 'sui:testnet'
+  accessChallengeTtlMs?: number; // Default: 5 minutes
+  maxAccessChallengesPerClient?: number; // Outstanding per client IP, default: 5
+  maxAccessChallenges?: number; // Outstanding overall, default: 10000
+  maxGasBudget?: string; // Max sponsored gas in MIST, default: 0.05 SUI
+  sponsorPolicy?: SponsorPolicy; // Optional: sponsor spending limits
+  gasPool?: GasCoinPool; // Optional: one leased sponsor gas coin per quote
+  quoteTtlMs?: number; // Default: 60 seconds
+  quoteStore?: QuoteStore; // Default: in-memory
+  quoteSigner?: Ed25519Keypair; // Default: random key per process
+  idempotencyTtlMs?: number; // How long executions are remembered, default: 24 hours
+  receiptCacheTtlMs?: number; // Owned-receipt cache per address, default: 30 seconds, 0 disables
+}
+
+/** An issued challenge, with the client IP it counts against */
+interface PendingChallenge extends AccessChallenge {
+  clientIp?: string;
+}
+
+interface PurchaseExecution {
+  signature: string; // Client signature of the first attempt
+  contentObjectIds: string[]; // Normalized, as validated on the first attempt
+  pending?: Promise<TransactionResult>;
+  result?: TransactionResult; // Unset after a failed attempt: in doubt
+  createdAt: number;
 }
 
 export interface PurchaseParams {
@@ -25,8 +113,37 @@ export interface PurchaseParams {
   creator: string; // Content creator address
   buyerAddress: string; // Who's buying
   clockObjectId?: string; // Sui clock object (0x6)
+  coinType?: string; // Payment coin, default: '0x2::sui::SUI'
+  clientIp?: string; // Limits the gas coins one client can hold in quotes
 }
 
+export interface RenewParams extends PurchaseParams {
+  receiptId: string; // SubscriptionReceipt owned by the buyer
+}
+
+/**
+ * Move calls a purchase PTB may end with, and where the split payment goes
+ * Renewals also take the buyer's SubscriptionReceipt, at argument 1
+ */
+const PURCHASE_CALLS: Record<
+  string,
+  { typeArguments: number; arguments: number; payment: number }
+> = {
+  purchase_and_grant_access: { typeArguments: 0, arguments: 3, payment: 1 },
+  purchase_and_grant_access_with_coin: {
+    typeArguments: 1,
+    arguments: 3,
+    payment: 1,
+  },
+  subscribe: { typeArguments: 0, arguments: 3, payment: 1 },
+  subscribe_with_coin: { typeArguments: 1, arguments: 3, payment: 1 },
+  renew_subscription: { typeArguments: 0, arguments: 4, payment: 2 },
+  renew_subscription_with_coin: { typeArguments: 1, arguments: 4, payment: 2 },
+};
+
+/** Most content items one bundle PTB may buy */
+export const MAX_BUNDLE_ITEMS = 25;
+
 /**
  * X402 Server SDK
  * Constructs PTBs for atomic payment + action and generates x402 responses
@@ -36,12 +153,43 @@ export class X402Server {
   private packageId: string;
   private sponsorKeypair?: Ed25519Keypair;
   private moduleName: string;
+  private network: string;
+  private accessChallengeTtlMs: number;
+  private maxGasBudget: bigint;
+  private sponsorPolicy?: SponsorPolicy;
+  private gasPool?: GasCoinPool;
+  private quoteTtlMs: number;
+  private quoteStore: QuoteStore;
+  private quoteSigner: Ed25519Keypair;
+  private idempotencyTtlMs: number;
+  private executions = new Map<string, PurchaseExecution>(); // By digest
+  private idempotencyKeys = new Map<
+    string,
+    { digest: string; createdAt: number }
+  >();
+  private maxAccessChallengesPerClient: number;
+  private maxAccessChallenges: number;
+  private accessChallenges = new Map<string, PendingChallenge>();
+  private receiptCache: ReceiptCache;
 
   constructor(config: ServerConfig) {
     this.client = config.suiClient;
     this.packageId = config.packageId;
     this.sponsorKeypair = config.sponsorKeypair;
     this.moduleName = config.contentModule || "content_access";
+    this.network = `sui:${config.network || "testnet"}`;
+    this.accessChallengeTtlMs = config.accessChallengeTtlMs ?? 5 * 60 * 1000;
+    this.maxAccessChallengesPerClient =
+      config.maxAccessChallengesPerClient ?? 5;
+    this.maxAccessChallenges = config.maxAccessChallenges ?? 10000;
+    this.maxGasBudget = BigInt(config.maxGasBudget ?? "50000000");
+    this.sponsorPolicy = config.sponsorPolicy;
+    this.gasPool = config.gasPool;
+    this.quoteTtlMs = config.quoteTtlMs ?? 60 * 1000;
+    this.quoteStore = config.quoteStore ?? new InMemoryQuoteStore();
+    this.quoteSigner = config.quoteSigner ?? new Ed25519Keypair();
+    this.idempotencyTtlMs = config.idempotencyTtlMs ?? 24 * 60 * 60 * 1000;
+    this.receiptCache = new ReceiptCache(config.receiptCacheTtlMs ?? 30 * 1000);
   }
 
   /**
@@ -50,114 +198,1221 @@ export class X402Server {
    */
   async buildPurchaseTransaction(params: PurchaseParams): Promise<Transaction> {
     const tx = new Transaction();
+    const {
+      coins: [coin],
+      coinType,
+      isSui,
+    } = await this.splitPayment(
+      tx,
+      params.buyerAddress,
+      [params.price],
+      params.coinType
+    );
 
-    // Get buyer's SUI coins to use for payment (not gas coin!)
-    const coins = await this.client.getCoins({
-      owner: params.buyerAddress,
-      coinType: "0x2::sui::SUI",
+    // 2. Call purchase_and_grant_access function
+    // This atomically:
+    // - Transfers payment to creator, less any revenue shares
+    // - Mints AccessReceipt NFT to buyer
+    tx.moveCall({
+      target: isSui
+        ? `${this.packageId}::${this.moduleName}::purchase_and_grant_access`
+        : `${this.packageId}::${this.moduleName}::purchase_and_grant_access_with_coin`,
+      typeArguments: isSui ? [] : [coinType],
+      arguments: [
+        tx.object(params.contentObjectId), // content: &ContentItem
+        coin!, // payment: Coin<SUI> or Coin<T>
+        tx.object(params.clockObjectId || "0x6"), // clock: &Clock
+      ],
     });
 
-    if (!coins.data || coins.data.length === 0) {
-      throw new Error("Buyer has no SUI coins");
-    }
+    return this.setPurchaseGas(tx, params.buyerAddress, params.clientIp);
+  }
 
-    // Find a coin with enough balance or use the first coin
-    // (Sui will automatically merge if needed)
-    const paymentCoin =
-      coins.data.find((c) => BigInt(c.balance) >= BigInt(params.price)) ||
-      coins.data[0];
+  /**
+   * Build a PTB that pays for one period of subscription content
+   * Mints a SubscriptionReceipt that expires after the content's period
+   */
+  async buildSubscribeTransaction(
+    params: PurchaseParams
+  ): Promise<Transaction> {
+    const tx = new Transaction();
+    const {
+      coins: [coin],
+      coinType,
+      isSui,
+    } = await this.splitPayment(
+      tx,
+      params.buyerAddress,
+      [params.price],
+      params.coinType
+    );
 
-    if (!paymentCoin) {
-      throw new Error("No valid payment coin found");
-    }
+    tx.moveCall({
+      target: isSui
+        ? `${this.packageId}::${this.moduleName}::subscribe`
+        : `${this.packageId}::${this.moduleName}::subscribe_with_coin`,
+      typeArguments: isSui ? [] : [coinType],
+      arguments: [
+        tx.object(params.contentObjectId), // content: &ContentItem
+        coin!, // payment: Coin<SUI> or Coin<T>
+        tx.object(params.clockObjectId || "0x6"), // clock: &Clock
+      ],
+    });
 
-    // 1. Split coin for exact payment from buyer's coin (NOT tx.gas)
-    const [coin] = tx.splitCoins(tx.object(paymentCoin.coinObjectId), [
-      params.price,
-    ]);
+    return this.setPurchaseGas(tx, params.buyerAddress, params.clientIp);
+  }
+
+  /**
+   * Build a PTB that pays for another period on a SubscriptionReceipt
+   * Extends from the current expiry while active, from now once lapsed
+   */
+  async buildRenewTransaction(params: RenewParams): Promise<Transaction> {
+    const tx = new Transaction();
+    const {
+      coins: [coin],
+      coinType,
+      isSui,
+    } = await this.splitPayment(
+      tx,
+      params.buyerAddress,
+      [params.price],
+      params.coinType
+    );
 
-    // 2. Call purchase_and_grant_access function
-    // This atomically:
-    // - Transfers payment to creator
-    // - Mints AccessReceipt NFT to buyer
     tx.moveCall({
-      target: `${this.packageId}::${this.moduleName}::purchase_and_grant_access`,
+      target: isSui
+        ? `${this.packageId}::${this.moduleName}::renew_subscription`
+        : `${this.packageId}::${this.moduleName}::renew_subscription_with_coin`,
+      typeArguments: isSui ? [] : [coinType],
       arguments: [
         tx.object(params.contentObjectId), // content: &ContentItem
-        coin, // payment: Coin<SUI>
+        tx.object(params.receiptId), // receipt: &mut SubscriptionReceipt
+        coin!, // payment: Coin<SUI> or Coin<T>
         tx.object(params.clockObjectId || "0x6"), // clock: &Clock
       ],
     });
 
+    return this.setPurchaseGas(tx, params.buyerAddress, params.clientIp);
+  }
+
+  /**
+   * Build one PTB buying lifetime access to several content items at once
+   * Prices and coin type are read from chain; one payment coin is split per
+   * item, so every purchase lands or none do
+   */
+  async buildBundlePurchaseTransaction(
+    contentIds: string[],
+    buyerAddress: string,
+    clockObjectId?: string
+  ): Promise<Transaction> {
+    const contents = await Promise.all(
+      contentIds.map(async (contentId) => {
+        const details = await this.getContentDetails(contentId);
+        if (!details || details.objectType !== this.getContentItemType()) {
+          throw new X402Error("NOT_FOUND", `Content not found: ${contentId}`);
+        }
+        return details;
+      })
+    );
+    return this.buildBundle(contents, buyerAddress, clockObjectId);
+  }
+
+  /**
+   * Chain a purchase_and_grant_access call per item, each paid with its own
+   * split of one merged payment coin
+   */
+  private async buildBundle(
+    contents: ContentMetadata[],
+    buyerAddress: string,
+    clockObjectId?: string,
+    clientIp?: string
+  ): Promise<Transaction> {
+    const tx = new Transaction();
+    const { coins, coinType, isSui } = await this.splitPayment(
+      tx,
+      buyerAddress,
+      contents.map((content) => content.price),
+      this.checkBundle(contents)
+    );
+
+    contents.forEach((content, i) => {
+      tx.moveCall({
+        target: isSui
+          ? `${this.packageId}::${this.moduleName}::purchase_and_grant_access`
+          : `${this.packageId}::${this.moduleName}::purchase_and_grant_access_with_coin`,
+        typeArguments: isSui ? [] : [coinType],
+        arguments: [
+          tx.object(content.id), // content: &ContentItem
+          coins[i]!, // payment: this item's split
+          tx.object(clockObjectId || "0x6"), // clock: &Clock
+        ],
+      });
+    });
+
+    return this.setPurchaseGas(tx, buyerAddress, clientIp);
+  }
+
+  /**
+   * Throw unless the items can be bought together, else their coin type
+   */
+  private checkBundle(contents: ContentMetadata[]): string {
+    const [first] = contents;
+    if (!first || contents.length > MAX_BUNDLE_ITEMS) {
+      throw new X402Error(
+        "INVALID_REQUEST",
+        `A bundle holds 1 to ${MAX_BUNDLE_ITEMS} content items`
+      );
+    }
+    const ids = new Set(
+      contents.map((content) => normalizeSuiObjectId(content.id))
+    );
+    if (ids.size !== contents.length) {
+      throw new X402Error("INVALID_REQUEST", "A bundle can't repeat content");
+    }
+    const subscription = contents.find(
+      (content) => content.subscriptionPeriodMs
+    );
+    if (subscription) {
+      throw new X402Error(
+        "INVALID_CONTENT",
+        `Subscriptions can't be bundled: ${subscription.title}`
+      );
+    }
+    const paymentCoinType = normalizeStructTag(first.coinType || SUI_TYPE_ARG);
+    if (
+      contents.some(
+        (content) =>
+          normalizeStructTag(content.coinType || SUI_TYPE_ARG) !==
+          paymentCoinType
+      )
+    ) {
+      throw new X402Error(
+        "INVALID_CONTENT",
+        "Bundled content must be priced in the same coin"
+      );
+    }
+    return paymentCoinType;
+  }
+
+  /**
+   * 1. Split the exact price(s) from the buyer's coins, one coin per amount
+   */
+  private async splitPayment(
+    tx: Transaction,
+    buyerAddress: string,
+    amounts: string[],
+    paymentCoinType?: string
+  ) {
+    const coinType = normalizeStructTag(paymentCoinType || SUI_TYPE_ARG);
+    const isSui = coinType === normalizeStructTag(SUI_TYPE_ARG);
+
+    if (isSui && !this.sponsorKeypair) {
+      // Self-pay: buyer's gas coin covers price + gas, split exact payment
+      const split = tx.splitCoins(tx.gas, amounts);
+      return { coins: amounts.map((_, i) => split[i]!), coinType, isSui };
+    }
+
+    // Select buyer's coins of the payment type (not the sponsor's gas coin!)
+    const paymentCoins = await this.selectPaymentCoins(
+      buyerAddress,
+      coinType,
+      amounts.reduce((total, amount) => total + BigInt(amount), 0n)
+    );
+
+    const [primaryCoin, ...otherCoins] = paymentCoins.map((coinObjectId) =>
+      tx.object(coinObjectId)
+    );
+    if (!primaryCoin) {
+      throw new Error("No valid payment coin found");
+    }
+
+    // Merge coins if needed, then split exact payment
+    if (otherCoins.length > 0) {
+      tx.mergeCoins(primaryCoin, otherCoins);
+    }
+    const split = tx.splitCoins(primaryCoin, amounts);
+    return { coins: amounts.map((_, i) => split[i]!), coinType, isSui };
+  }
+
+  /**
+   * Set the buyer as sender, and the sponsor's leased gas coin if sponsored
+   * Senders the sponsor policy refuses get no coin
+   */
+  private async setPurchaseGas(
+    tx: Transaction,
+    buyerAddress: string,
+    clientIp?: string
+  ): Promise<Transaction> {
     // Set sender (buyer)
-    tx.setSender(params.buyerAddress);
+    tx.setSender(buyerAddress);
 
     // If we have a sponsor, set gas payment (sponsor pays ONLY gas, not content)
     if (this.sponsorKeypair) {
       tx.setGasOwner(this.sponsorKeypair.toSuiAddress());
+
+      // Pin a leased coin so concurrent quotes never share a gas object
+      if (this.gasPool) {
+        // Nothing is reserved until submission, this only turns refusals away
+        await this.applySponsorPolicy(
+          { sender: buyerAddress, ip: clientIp, gasBudget: 0n },
+          false
+        );
+        const lease = await this.gasPool.lease({
+          ttlMs: this.quoteTtlMs,
+          clients: [normalizeSuiAddress(buyerAddress), clientIp].filter(
+            (client) => client !== undefined
+          ),
+        });
+        tx.setGasPayment([lease.coin]);
+      }
     }
 
     return tx;
   }
 
+  /**
+   * Pick the fewest of the owner's coins that cover the amount
+   * Prefers the smallest single coin that covers it, else the largest coins
+   */
+  private async selectPaymentCoins(
+    owner: string,
+    coinType: string,
+    amount: bigint
+  ): Promise<string[]> {
+    const coins: { coinObjectId: string; balance: bigint }[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await this.client.getCoins({ owner, coinType, cursor });
+      for (const coin of page.data) {
+        coins.push({
+          coinObjectId: coin.coinObjectId,
+          balance: BigInt(coin.balance),
+        });
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    const single = coins
+      .filter((coin) => coin.balance >= amount)
+      .sort((a, b) => Number(a.balance - b.balance))[0];
+    if (single) {
+      return [single.coinObjectId];
+    }
+
+    const selected: string[] = [];
+    let total = 0n;
+    for (const coin of coins.sort((a, b) => Number(b.balance - a.balance))) {
+      if (total >= amount) break;
+      selected.push(coin.coinObjectId);
+      total += coin.balance;
+    }
+
+    if (total < amount) {
+      throw new InsufficientBalanceError(coinType, amount, total);
+    }
+    return selected;
+  }
+
+  /**
+   * Generate standard x402 payment requirements for content
+   * The PTB to sign is included in extra.transactionBytes when the buyer is known
+   * context.ip counts the quote against that client's gas coin limit
+   * extra.split is read from chain, since pay_creator pays the current split
+   */
+  async generatePaymentRequirements(
+    content: ContentMetadata,
+    resource: string,
+    buyerAddress?: string,
+    context: PurchaseContext = {}
+  ): Promise<PaymentRequirements> {
+    let transactionBytes: string | undefined;
+    let quote: PaymentQuote | undefined;
+    const split = await this.disclosedSplit(content);
+    let description = content.subscriptionPeriodMs
+      ? `Subscribe to: ${content.title}`
+      : `Purchase access to: ${content.title}`;
+    if (buyerAddress) {
+      const params: PurchaseParams = {
+        contentObjectId: content.id,
+        price: content.price,
+        creator: content.creator,
+        buyerAddress,
+        coinType: content.coinType,
+        clientIp: context.ip,
+      };
+
+      // Subscriptions renew the buyer's existing receipt, if there is one
+      let tx: Transaction;
+      const subscription = content.subscriptionPeriodMs
+        ? await this.findSubscriptionReceipt(buyerAddress, content.id)
+        : undefined;
+      if (subscription) {
+        description = `Renew subscription to: ${content.title}`;
+        tx = await this.buildRenewTransaction({
+          ...params,
+          receiptId: subscription.id,
+        });
+      } else if (content.subscriptionPeriodMs) {
+        tx = await this.buildSubscribeTransaction(params);
+      } else {
+        tx = await this.buildPurchaseTransaction(params);
+      }
+
+      ({ transactionBytes, quote } = await this.quoteTransaction(tx));
+    }
+
+    return {
+      scheme: "exact",
+      network: this.network,
+      maxAmountRequired: content.price,
+      resource,
+      description,
+      mimeType: "application/json",
+      payTo: content.creator,
+      maxTimeoutSeconds: Math.floor(this.quoteTtlMs / 1000),
+      asset: normalizeStructTag(content.coinType || SUI_TYPE_ARG),
+      extra: { transactionBytes, quote, split },
+    };
+  }
+
+  /**
+   * Payouts of one purchase under the content's on-chain revenue split
+   * Undefined when the creator keeps everything
+   */
+  private async disclosedSplit(
+    content: ContentMetadata
+  ): Promise<RevenuePayout[] | undefined> {
+    const recipients = await this.getRevenueSplit(content.id);
+    return recipients?.length
+      ? splitRevenue(content.price, content.creator, recipients)
+      : undefined;
+  }
+
   /**
    * Generate x402 response with PTB transaction bytes
-   * Client will sign this and send back
+   * Client will sign this and send back, either to /execute or in X-PAYMENT
    */
   async generateX402Response(
     content: ContentMetadata,
-    buyerAddress: string
+    buyerAddress: string,
+    resource: string = content.id,
+    context: PurchaseContext = {}
   ): Promise<X402Response> {
-    // Build the transaction
-    const tx = await this.buildPurchaseTransaction({
-      contentObjectId: content.id,
-      price: content.price,
-      creator: content.creator,
-      buyerAddress,
-    });
+    return this.toX402Response(
+      await this.generatePaymentRequirements(
+        content,
+        resource,
+        buyerAddress,
+        context
+      )
+    );
+  }
 
-    // Serialize transaction to bytes
-    const transactionBytes = await tx.build({ client: this.client });
-    const base64Tx = Buffer.from(transactionBytes).toString("base64");
+  /**
+   * Payment requirements for several items bought in one bundle PTB
+   * payTo is the first item's creator; extra.items breaks the total down
+   */
+  async generateBundlePaymentRequirements(
+    contents: ContentMetadata[],
+    resource: string,
+    buyerAddress?: string,
+    context: PurchaseContext = {}
+  ): Promise<PaymentRequirements> {
+    const coinType = this.checkBundle(contents);
+    let transactionBytes: string | undefined;
+    let quote: PaymentQuote | undefined;
+    if (buyerAddress) {
+      ({ transactionBytes, quote } = await this.quoteTransaction(
+        await this.buildBundle(contents, buyerAddress, undefined, context.ip)
+      ));
+    }
 
+    const items: BundleItem[] = await Promise.all(
+      contents.map(async (content) => ({
+        contentId: content.id,
+        title: content.title,
+        price: content.price,
+        payTo: content.creator,
+        split: await this.disclosedSplit(content),
+      }))
+    );
+
+    return {
+      scheme: "exact",
+      network: this.network,
+      maxAmountRequired: String(
+        contents.reduce((total, content) => total + BigInt(content.price), 0n)
+      ),
+      resource,
+      description: `Purchase access to: ${contents.map((content) => content.title).join(", ")}`,
+      mimeType: "application/json",
+      // One creator gets everything; otherwise only the items say who gets what
+      payTo:
+        new Set(contents.map((content) => normalizeSuiAddress(content.creator)))
+          .size === 1
+          ? contents[0]!.creator
+          : PAY_TO_ITEMS,
+      maxTimeoutSeconds: Math.floor(this.quoteTtlMs / 1000),
+      asset: coinType,
+      extra: { transactionBytes, quote, items },
+    };
+  }
+
+  /**
+   * Generate one x402 response for a bundle, with a single PTB to sign
+   */
+  async generateBundleX402Response(
+    contents: ContentMetadata[],
+    buyerAddress: string,
+    resource: string,
+    context: PurchaseContext = {}
+  ): Promise<X402Response> {
+    return this.toX402Response(
+      await this.generateBundlePaymentRequirements(
+        contents,
+        resource,
+        buyerAddress,
+        context
+      )
+    );
+  }
+
+  /**
+   * Build the bytes to hand out and quote them
+   * The leased gas coin is bound to the quote, or released if either step fails
+   */
+  private async quoteTransaction(
+    tx: Transaction
+  ): Promise<{ transactionBytes: string; quote: PaymentQuote }> {
+    const payment = tx.getData().gasData.payment ?? [];
+    let quote: PaymentQuote;
+    let bytes: Uint8Array;
+    try {
+      bytes = await tx.build({ client: this.client });
+      quote = await this.issueQuote(bytes);
+    } catch (error) {
+      // No quote, no lease
+      for (const coin of payment) {
+        this.gasPool?.release(coin.objectId);
+      }
+      throw error;
+    }
+
+    // The coin pays for these bytes only, and is free again when the quote expires
+    for (const coin of payment) {
+      this.gasPool?.bind(
+        coin.objectId,
+        quote.transactionDigest,
+        quote.expiresAt
+      );
+    }
+    return {
+      transactionBytes: Buffer.from(bytes).toString("base64"),
+      quote,
+    };
+  }
+
+  /**
+   * Wrap requirements built for a known buyer in the legacy 402 body
+   */
+  private toX402Response(requirements: PaymentRequirements): X402Response {
     return {
+      x402Version: X402_VERSION,
+      error: "X-PAYMENT header is required",
+      code: "PAYMENT_REQUIRED",
+      accepts: [requirements],
       statusCode: 402,
       message: "Payment Required",
       paymentRequired: {
-        amount: content.price,
-        recipient: content.creator,
-        transactionBytes: base64Tx,
-        description: `Purchase access to: ${content.title}`,
+        amount: requirements.maxAmountRequired,
+        recipient: requirements.payTo,
+        transactionBytes: requirements.extra.transactionBytes!,
+        description: requirements.description,
+        coinType: requirements.asset,
+        quote: requirements.extra.quote!,
+        split: requirements.extra.split,
+        items: requirements.extra.items,
       },
     };
   }
 
+  /**
+   * Base64 ed25519 key that signs quotes, for clients to pin
+   */
+  getQuotePublicKey(): string {
+    return this.quoteSigner.getPublicKey().toBase64();
+  }
+
+  /**
+   * Sign and store a quote for transaction bytes we're handing out
+   */
+  private async issueQuote(
+    transactionBytes: Uint8Array
+  ): Promise<PaymentQuote> {
+    const quoteId = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    const transactionDigest =
+      TransactionDataBuilder.getDigestFromBytes(transactionBytes);
+    const expiresAt = Date.now() + this.quoteTtlMs;
+
+    const signature = await this.quoteSigner.sign(
+      new TextEncoder().encode(
+        buildQuoteMessage(quoteId, transactionDigest, expiresAt)
+      )
+    );
+
+    const quote: PaymentQuote = {
+      quoteId,
+      transactionDigest,
+      expiresAt,
+      signature: toBase64(signature),
+      publicKey: this.quoteSigner.getPublicKey().toBase64(),
+    };
+    await this.quoteStore.save(quote);
+    return quote;
+  }
+
+  /**
+   * Spend the quote for these bytes, rejecting unknown, expired or used ones
+   */
+  private async redeemQuote(
+    transactionBytes: string,
+    quoteId?: string
+  ): Promise<void> {
+    const digest = TransactionDataBuilder.getDigestFromBytes(
+      fromBase64(transactionBytes)
+    );
+
+    const quote = await this.quoteStore.get(digest);
+    if (!quote || (quoteId !== undefined && quote.quoteId !== quoteId)) {
+      throw new SponsorRejectedError(
+        "unknown_quote",
+        "Transaction was not quoted by this server"
+      );
+    }
+    if (quote.expiresAt <= Date.now()) {
+      throw new QuoteExpiredError();
+    }
+    if (!(await this.quoteStore.consume(digest))) {
+      throw new SponsorRejectedError(
+        "quote_consumed",
+        "Quote has already been used"
+      );
+    }
+  }
+
+  /**
+   * Settle a decoded X-PAYMENT header for content, or a bundle's content IDs
+   * Failures are reported in the settlement rather than thrown
+   */
+  async settlePayment(
+    payment: PaymentPayload,
+    contentObjectId: string | string[],
+    context: PurchaseContext = {}
+  ): Promise<SettlementResponse> {
+    const { transactionBytes, signature, publicKey } = payment.payload;
+
+    let payer = "";
+    try {
+      payer = Transaction.from(transactionBytes).getData().sender ?? "";
+    } catch {
+      // Reported by executePurchase as malformed_transaction
+    }
+
+    const failure = (errorReason: string): SettlementResponse => ({
+      success: false,
+      transaction: "",
+      network: this.network,
+      payer,
+      errorReason,
+    });
+
+    if (payment.scheme !== "exact") {
+      return failure("unsupported_scheme");
+    }
+    if (payment.network !== this.network) {
+      return failure("invalid_network");
+    }
+
+    try {
+      const result = await this.executePurchase(
+        transactionBytes,
+        signature,
+        publicKey,
+        contentObjectId,
+        { ...context, quoteId: payment.payload.quoteId }
+      );
+
+      return {
+        success: result.status === "success",
+        transaction: result.digest,
+        network: this.network,
+        payer,
+        errorReason:
+          result.status === "success" ? undefined : "transaction_failed",
+      };
+    } catch (error) {
+      if (
+        error instanceof SponsorRejectedError ||
+        error instanceof SponsorPolicyError
+      ) {
+        return failure(error.reason);
+      }
+      console.error("Payment settlement failed:", error);
+      return failure("execution_failed");
+    }
+  }
+
+  /**
+   * Check that client-signed bytes are a purchase we're willing to submit
+   * Only the exact split + purchase, subscribe or renew PTB from
+   * buildPurchaseTransaction and friends is accepted, for the given content object
+   * With several content objects, only the bundle PTB buying them in that order
+   */
+  async validatePurchaseTransaction(
+    transactionBytes: string,
+    clientSignature: string,
+    clientPublicKey: string,
+    contentObjectId: string | string[]
+  ): Promise<SponsorValidationResult> {
+    let data: ReturnType<Transaction["getData"]>;
+    try {
+      data = Transaction.from(transactionBytes).getData();
+    } catch {
+      return {
+        valid: false,
+        reason: "malformed_transaction",
+        message: "Transaction bytes could not be decoded",
+      };
+    }
+
+    // The buyer's signature must come from the sender, and match the key sent
+    if (!data.sender) {
+      return {
+        valid: false,
+        reason: "malformed_transaction",
+        message: "Transaction has no sender",
+      };
+    }
+
+    try {
+      const publicKey = await verifyTransactionSignature(
+        Buffer.from(transactionBytes, "base64"),
+        clientSignature,
+        { address: data.sender, client: this.client }
+      );
+      if (
+        clientPublicKey !== publicKey.toBase64() &&
+        clientPublicKey !== publicKey.toSuiPublicKey()
+      ) {
+        throw new Error("Public key mismatch");
+      }
+    } catch {
+      return {
+        valid: false,
+        reason: "sender_mismatch",
+        message: "Signature and public key do not match the sender",
+      };
+    }
+
+    // Sponsor pays gas only, and only up to the cap
+    // Self-pay: the buyer pays their own gas
+    const expectedGasOwner = this.sponsorKeypair
+      ? this.sponsorKeypair.toSuiAddress()
+      : data.sender;
+    if ((data.gasData.owner ?? data.sender) !== expectedGasOwner) {
+      return {
+        valid: false,
+        reason: "gas_owner_mismatch",
+        message: this.sponsorKeypair
+          ? "Gas owner must be the sponsor"
+          : "Gas owner must be the sender",
+      };
+    }
+
+    if (
+      this.sponsorKeypair &&
+      (data.gasData.budget === null ||
+        BigInt(data.gasData.budget) > this.maxGasBudget)
+    ) {
+      return {
+        valid: false,
+        reason: "gas_budget_exceeded",
+        message: `Gas budget must not exceed ${this.maxGasBudget} MIST`,
+      };
+    }
+
+    // Pooled sponsor gas: only the coin leased for this transaction's quote
+    const payment = data.gasData.payment ?? [];
+    if (
+      this.sponsorKeypair &&
+      this.gasPool &&
+      (payment.length !== 1 ||
+        !this.gasPool.isLeased(
+          payment[0]!.objectId,
+          TransactionDataBuilder.getDigestFromBytes(
+            fromBase64(transactionBytes)
+          )
+        ))
+    ) {
+      return {
+        valid: false,
+        reason: "gas_coin_not_leased",
+        message: "Gas payment must be the coin leased for an open quote",
+      };
+    }
+
+    // Exactly: [MergeCoins(buyer coins)] -> SplitCoins(buyer coin, [amount, ...])
+    // -> purchase_and_grant_access / subscribe / renew_subscription (_with_coin<T>)
+    // once per content object, each paid with its own split coin
+    // Bundles of several objects are lifetime purchases only
+    // Self-pay SUI purchases split from the buyer's own gas coin instead
+    type Argument = NonNullable<
+      (typeof data.commands)[number]["SplitCoins"]
+    >["coin"];
+    const isOwnedInput = (arg: Argument | undefined) =>
+      arg?.$kind === "Input" &&
+      data.inputs[arg.Input]?.Object?.$kind === "ImmOrOwnedObject";
+
+    const contentObjectIds = [contentObjectId].flat();
+    const isBundle = contentObjectIds.length > 1;
+    const commands = [...data.commands];
+    const merge = commands[0]?.MergeCoins ? commands.shift()?.MergeCoins : null;
+    const splitIndex = merge ? 1 : 0;
+    const [split, ...calls] = commands;
+    const splitCoin = split?.SplitCoins?.coin;
+    const splitAmounts = split?.SplitCoins?.amounts ?? [];
+
+    // The call paying with the index-th split coin
+    const isPurchaseCall = (
+      command: (typeof commands)[number],
+      index: number
+    ) => {
+      const call = command.MoveCall;
+      const callArgs = call?.arguments ?? [];
+      const shape = call ? PURCHASE_CALLS[call.function] : undefined;
+      const paymentArg = shape ? callArgs[shape.payment] : undefined;
+      return (
+        !!call &&
+        !!shape &&
+        normalizeSuiObjectId(call.package) ===
+          normalizeSuiObjectId(this.packageId) &&
+        call.module === this.moduleName &&
+        call.typeArguments.length === shape.typeArguments &&
+        callArgs.length === shape.arguments &&
+        // Renewals: the receipt is the buyer's own object
+        (shape.arguments === 3 || isOwnedInput(callArgs[1])) &&
+        (!isBundle || call.function.startsWith("purchase_and_grant_access")) &&
+        paymentArg?.$kind === "NestedResult" &&
+        paymentArg.NestedResult[0] === splitIndex &&
+        paymentArg.NestedResult[1] === index
+      );
+    };
+
+    if (
+      contentObjectIds.length === 0 ||
+      calls.length !== contentObjectIds.length ||
+      (merge &&
+        (merge.sources.length === 0 ||
+          !merge.sources.every(isOwnedInput) ||
+          merge.destination.$kind !== "Input" ||
+          splitCoin?.$kind !== "Input" ||
+          merge.destination.Input !== splitCoin.Input)) ||
+      !(
+        isOwnedInput(splitCoin) ||
+        (!this.sponsorKeypair && !merge && splitCoin?.$kind === "GasCoin")
+      ) ||
+      splitAmounts.length !== calls.length ||
+      !splitAmounts.every(
+        (amount) =>
+          amount.$kind === "Input" &&
+          data.inputs[amount.Input]?.$kind === "Pure"
+      ) ||
+      !calls.every(isPurchaseCall)
+    ) {
+      return {
+        valid: false,
+        reason: "unexpected_commands",
+        message: "Transaction is not a content purchase",
+      };
+    }
+
+    const mismatched = calls.some((command, index) => {
+      const contentArg = command.MoveCall!.arguments[0];
+      const contentInput =
+        contentArg?.$kind === "Input"
+          ? data.inputs[contentArg.Input]
+          : undefined;
+      const contentRef = contentInput?.Object?.SharedObject;
+      return (
+        !contentRef ||
+        normalizeSuiObjectId(contentRef.objectId) !==
+          normalizeSuiObjectId(contentObjectIds[index]!)
+      );
+    });
+    if (mismatched) {
+      return {
+        valid: false,
+        reason: "content_mismatch",
+        message: isBundle
+          ? "Transaction purchases different content objects"
+          : "Transaction purchases a different content object",
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Whether the server pays gas (sponsored) or buyers pay their own
+   */
+  getGasMode(): "sponsored" | "self-pay" {
+    return this.sponsorKeypair ? "sponsored" : "self-pay";
+  }
+
   /**
    * Sponsor and execute a transaction signed by the client
-   * Server adds its signature and submits to Sui network
+   * Server validates the transaction, adds its signature and submits to Sui
    */
   async sponsorAndExecute(
     transactionBytes: string,
     clientSignature: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _clientPublicKey: string // Reserved for future verification
+    clientPublicKey: string,
+    contentObjectId: string | string[],
+    context: PurchaseContext = {}
   ): Promise<TransactionResult> {
     if (!this.sponsorKeypair) {
-      throw new Error("Sponsor keypair required for transaction execution");
+      throw new SponsorUnavailableError(
+        "Sponsor keypair required for transaction execution"
+      );
+    }
+
+    return this.executePurchase(
+      transactionBytes,
+      clientSignature,
+      clientPublicKey,
+      contentObjectId,
+      context
+    );
+  }
+
+  /**
+   * Validate and submit a client-signed purchase in either gas mode
+   * Sponsored: adds the sponsor signature. Self-pay: submits the buyer's alone
+   * Throws SponsorPolicyError when the sponsor policy refuses the gas
+   * Idempotent per transaction digest: repeats get the first attempt's result
+   */
+  async executePurchase(
+    transactionBytes: string,
+    clientSignature: string,
+    clientPublicKey: string,
+    contentObjectId: string | string[],
+    context: PurchaseContext = {}
+  ): Promise<TransactionResult> {
+    // Digest is known before submission, so retries can be matched to it
+    const digest = TransactionDataBuilder.getDigestFromBytes(
+      fromBase64(transactionBytes)
+    );
+    this.pruneExecutions();
+    const contentObjectIds = (
+      Array.isArray(contentObjectId) ? contentObjectId : [contentObjectId]
+    ).map((id) => normalizeSuiObjectId(id));
+
+    const { idempotencyKey } = context;
+    const keyed = idempotencyKey
+      ? this.idempotencyKeys.get(idempotencyKey)
+      : undefined;
+    if (keyed && keyed.digest !== digest) {
+      throw new SponsorRejectedError(
+        "idempotency_key_reused",
+        "Idempotency-Key was already used for a different transaction"
+      );
+    }
+
+    const previous = this.executions.get(digest);
+    if (previous && previous.signature === clientSignature) {
+      // The stored result only answers for the content it was validated against
+      if (
+        previous.contentObjectIds.length !== contentObjectIds.length ||
+        previous.contentObjectIds.some((id, i) => id !== contentObjectIds[i])
+      ) {
+        throw new SponsorRejectedError(
+          "content_mismatch",
+          "Transaction purchases a different content object"
+        );
+      }
+      if (previous.pending) return previous.pending;
+      if (previous.result) return previous.result;
+
+      // Last attempt failed without an answer - it may still have landed
+      return this.trackExecution(
+        digest,
+        clientSignature,
+        contentObjectIds,
+        this.recoverPurchase(digest, transactionBytes, clientSignature, context)
+      );
+    }
+
+    // Claim the digest before any await so concurrent repeats share this attempt
+    const attempt = this.validateAndSubmitPurchase(
+      digest,
+      transactionBytes,
+      clientSignature,
+      clientPublicKey,
+      contentObjectId,
+      context
+    );
+    if (previous) {
+      // Same bytes, different signature: can't be the same purchase
+      return attempt;
+    }
+    return this.trackExecution(
+      digest,
+      clientSignature,
+      contentObjectIds,
+      attempt
+    );
+  }
+
+  /**
+   * First attempt at a digest: validate, spend the quote, submit
+   */
+  private async validateAndSubmitPurchase(
+    digest: string,
+    transactionBytes: string,
+    clientSignature: string,
+    clientPublicKey: string,
+    contentObjectId: string | string[],
+    context: PurchaseContext
+  ): Promise<TransactionResult> {
+    const validation = await this.validatePurchaseTransaction(
+      transactionBytes,
+      clientSignature,
+      clientPublicKey,
+      contentObjectId
+    );
+    if (!validation.valid) {
+      throw new SponsorRejectedError(validation.reason, validation.message);
+    }
+
+    // Only bytes we quoted, once, before they expire
+    await this.redeemQuote(transactionBytes, context.quoteId);
+    if (!this.holdGasCoin(digest, transactionBytes)) {
+      throw new SponsorRejectedError(
+        "gas_coin_not_leased",
+        "Gas coin lease expired, request a new quote"
+      );
+    }
+
+    if (context.idempotencyKey) {
+      this.idempotencyKeys.set(context.idempotencyKey, {
+        digest,
+        createdAt: Date.now(),
+      });
+    }
+
+    return this.submitLeasedPurchase(
+      digest,
+      transactionBytes,
+      clientSignature,
+      context
+    );
+  }
+
+  /**
+   * Remember an attempt so repeats share it, and its result once known
+   */
+  private async trackExecution(
+    digest: string,
+    signature: string,
+    contentObjectIds: string[],
+    attempt: Promise<TransactionResult>
+  ): Promise<TransactionResult> {
+    const execution: PurchaseExecution = {
+      signature,
+      contentObjectIds,
+      pending: attempt,
+      createdAt: Date.now(),
+    };
+    this.executions.set(digest, execution);
+
+    try {
+      execution.result = await attempt;
+      return execution.result;
+    } catch (error) {
+      // Refused before submission: nothing landed, nothing to replay
+      if (
+        (error instanceof SponsorRejectedError ||
+          error instanceof SponsorPolicyError) &&
+        this.executions.get(digest) === execution
+      ) {
+        this.executions.delete(digest);
+      }
+      throw error;
+    } finally {
+      execution.pending = undefined;
+    }
+  }
+
+  /**
+   * Look an in-doubt transaction up on chain, resubmitting only if it's missing
+   * Lookup errors other than not-found leave it in doubt for the next retry
+   */
+  private async recoverPurchase(
+    digest: string,
+    transactionBytes: string,
+    clientSignature: string,
+    context: PurchaseContext
+  ): Promise<TransactionResult> {
+    let landed: SuiTransactionBlockResponse;
+    try {
+      landed = await this.client.getTransactionBlock({
+        digest,
+        options: { showEffects: true },
+      });
+    } catch (error) {
+      if (!isTransactionNotFound(error)) {
+        throw error;
+      }
+
+      // Not on chain - already validated and quoted, submit again
+      // unless its gas coin has since gone to another quote
+      if (!this.holdGasCoin(digest, transactionBytes)) {
+        throw new SponsorRejectedError(
+          "gas_coin_not_leased",
+          "Gas coin lease expired, request a new quote"
+        );
+      }
+      return this.submitLeasedPurchase(
+        digest,
+        transactionBytes,
+        clientSignature,
+        context
+      );
+    }
+
+    this.releaseGasCoin(digest, transactionBytes);
+    const status =
+      landed.effects?.status?.status === "success" ? "success" : "failure";
+    if (status === "success") {
+      this.invalidateBuyer(transactionBytes);
+    }
+    return {
+      digest: landed.digest,
+      status,
+      error: landed.effects?.status?.error,
+      effects: landed.effects,
+    };
+  }
+
+  private pruneExecutions(): void {
+    const cutoff = Date.now() - this.idempotencyTtlMs;
+    for (const [digest, execution] of this.executions) {
+      if (execution.createdAt < cutoff && !execution.pending) {
+        this.executions.delete(digest);
+      }
+    }
+    for (const [key, keyed] of this.idempotencyKeys) {
+      if (keyed.createdAt < cutoff) {
+        this.idempotencyKeys.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Submit, then return the transaction's gas coin to the pool once it has
+   * effects. If submission throws the transaction may still be in flight,
+   * so the coin stays held until its lease runs out
+   */
+  private async submitLeasedPurchase(
+    digest: string,
+    transactionBytes: string,
+    clientSignature: string,
+    context: PurchaseContext
+  ): Promise<TransactionResult> {
+    const result = await this.submitPurchase(
+      transactionBytes,
+      clientSignature,
+      context
+    );
+    this.releaseGasCoin(digest, transactionBytes);
+    if (result.status === "success") {
+      this.invalidateBuyer(transactionBytes);
+    }
+    return result;
+  }
+
+  /**
+   * Extend the pooled gas coin's lease while its transaction is in flight
+   * Always true without a pool
+   */
+  private holdGasCoin(digest: string, transactionBytes: string): boolean {
+    if (!this.sponsorKeypair || !this.gasPool) {
+      return true;
+    }
+    const { gasData } = Transaction.from(transactionBytes).getData();
+    return (gasData.payment ?? []).every((coin) =>
+      this.gasPool!.hold(coin.objectId, digest)
+    );
+  }
+
+  /**
+   * Return the transaction's gas coin, unless it's already leased to another
+   */
+  private releaseGasCoin(digest: string, transactionBytes: string): void {
+    if (this.sponsorKeypair && this.gasPool) {
+      const { gasData } = Transaction.from(transactionBytes).getData();
+      for (const coin of gasData.payment ?? []) {
+        this.gasPool.release(coin.objectId, digest);
+      }
+    }
+  }
+
+  /**
+   * The buyer owns a new receipt - their cached receipts are stale
+   */
+  private invalidateBuyer(transactionBytes: string): void {
+    const { sender } = Transaction.from(transactionBytes).getData();
+    if (sender) {
+      this.invalidateAccess(sender);
+    }
+  }
+
+  /**
+   * Apply the sponsor policy, co-sign if sponsored, and execute
+   */
+  private async submitPurchase(
+    transactionBytes: string,
+    clientSignature: string,
+    context: PurchaseContext
+  ): Promise<TransactionResult> {
+    // Reserve the sponsor's gas against the policy limits
+    let spend: SponsorSpendRequest | undefined;
+    if (this.sponsorKeypair && this.sponsorPolicy) {
+      const { sender, gasData } = Transaction.from(transactionBytes).getData();
+      spend = {
+        sender: sender ?? "",
+        ip: context.ip,
+        gasBudget: BigInt(gasData.budget ?? 0),
+      };
+      await this.applySponsorPolicy(spend, true);
     }
 
     try {
       // Decode transaction bytes
       const txBytes = Buffer.from(transactionBytes, "base64");
 
-      // Execute transaction with both signatures
       // Client signature authorizes the action
-      // Sponsor signature pays for gas
-      const sponsorSig = await this.sponsorKeypair.signTransaction(txBytes);
+      // Sponsor signature (if any) pays for gas
+      const signatures = [clientSignature];
+      if (this.sponsorKeypair) {
+        const sponsorSig = await this.sponsorKeypair.signTransaction(txBytes);
+        signatures.push(sponsorSig.signature);
+      }
+
       const result: SuiTransactionBlockResponse =
         await this.client.executeTransactionBlock({
           transactionBlock: txBytes,
-          signature: [clientSignature, sponsorSig.signature],
+          signature: signatures,
           options: {
             showEffects: true,
             showEvents: true,
@@ -165,37 +1420,104 @@ export class X402Server {
           },
         });
 
+      // Count what the sponsor actually paid, not the reserved budget
+      if (spend && this.sponsorPolicy) {
+        const gasUsed = result.effects?.gasUsed;
+        this.sponsorPolicy.settle(
+          spend,
+          gasUsed
+            ? BigInt(gasUsed.computationCost) +
+                BigInt(gasUsed.storageCost) -
+                BigInt(gasUsed.storageRebate)
+            : spend.gasBudget
+        );
+      }
+
       return {
         digest: result.digest,
         status:
           result.effects?.status?.status === "success" ? "success" : "failure",
+        error: result.effects?.status?.error,
         effects: result.effects,
       };
     } catch (error) {
       console.error("Transaction execution failed:", error);
-      throw error;
+      // Gas used is unknown, so release the reservation rather than leak it
+      if (spend && this.sponsorPolicy) {
+        this.sponsorPolicy.settle(spend, 0n);
+      }
+      // Surface aborts from content_access as typed errors, not RPC text
+      throw (
+        (error instanceof Error && MoveAbortError.parse(error.message)) || error
+      );
+    }
+  }
+
+  /**
+   * Throw SponsorPolicyError if the policy refuses the spend
+   * With reserve, the budget counts as spent until settled
+   */
+  private async applySponsorPolicy(
+    spend: SponsorSpendRequest,
+    reserve: boolean
+  ): Promise<void> {
+    if (!this.sponsorKeypair || !this.sponsorPolicy) {
+      return;
+    }
+
+    const sponsorBalance = this.sponsorPolicy.requiresSponsorBalance()
+      ? BigInt(
+          (
+            await this.client.getBalance({
+              owner: this.sponsorKeypair.toSuiAddress(),
+            })
+          ).totalBalance
+        )
+      : undefined;
+
+    const request = { ...spend, sponsorBalance };
+    const decision = reserve
+      ? this.sponsorPolicy.authorize(request)
+      : this.sponsorPolicy.check(request);
+    if (!decision.allowed) {
+      throw new SponsorPolicyError(decision.reason, decision.message);
     }
   }
 
   /**
    * Helper: Create new content (for content providers)
+   * With subscriptionPeriodMs, each payment buys that long instead of lifetime access
    */
   async createContent(
     title: string,
     description: string,
     price: string,
     contentUrl: string,
-    creatorKeypair: Ed25519Keypair
+    creatorKeypair: Ed25519Keypair,
+    coinType?: string, // Default: SUI
+    subscriptionPeriodMs?: string
   ): Promise<string> {
     const tx = new Transaction();
+    const isSui =
+      !coinType ||
+      normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG);
+    const create = subscriptionPeriodMs
+      ? "create_subscription_content"
+      : "create_content";
 
     tx.moveCall({
-      target: `${this.packageId}::${this.moduleName}::create_content`,
+      target: isSui
+        ? `${this.packageId}::${this.moduleName}::${create}`
+        : `${this.packageId}::${this.moduleName}::${create}_with_coin`,
+      typeArguments: isSui ? [] : [coinType],
       arguments: [
         tx.pure.string(title),
         tx.pure.string(description),
         tx.pure.u64(BigInt(price)),
         tx.pure.string(contentUrl),
+        ...(subscriptionPeriodMs
+          ? [tx.pure.u64(BigInt(subscriptionPeriodMs))]
+          : []),
       ],
     });
 
@@ -224,12 +1546,127 @@ export class X402Server {
     return contentObject.reference.objectId;
   }
 
+  /**
+   * Helper: Share every future payment for content (for content providers)
+   * Recipients get their bps of the price, the creator the rest; [] removes the split
+   */
+  async setRevenueSplit(
+    contentObjectId: string,
+    recipients: RevenueShare[],
+    creatorKeypair: Ed25519Keypair
+  ): Promise<string> {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.packageId}::${this.moduleName}::set_revenue_split`,
+      arguments: [
+        tx.object(contentObjectId), // content: &mut ContentItem
+        tx.pure.vector(
+          "address",
+          recipients.map((share) => share.recipient)
+        ),
+        tx.pure.vector(
+          "u64",
+          recipients.map((share) => share.bps)
+        ),
+      ],
+    });
+    tx.setSender(creatorKeypair.toSuiAddress());
+
+    const result = await this.client.signAndExecuteTransaction({
+      transaction: tx,
+      signer: creatorKeypair,
+      options: { showEffects: true },
+    });
+    if (result.effects?.status.status !== "success") {
+      throw new Error(
+        `Failed to set revenue split: ${result.effects?.status.error ?? "unknown error"}`
+      );
+    }
+    return result.digest;
+  }
+
+  /**
+   * Build the creator's transaction setting a new price for future sales
+   * The creator signs and pays gas; sync the server with PATCH /content/:id after
+   */
+  buildUpdatePriceTransaction(
+    contentObjectId: string,
+    price: string,
+    creatorAddress: string
+  ): Transaction {
+    const tx = new Transaction();
+    addUpdatePriceCall(tx, this.contentModule(), contentObjectId, price);
+    tx.setSender(creatorAddress);
+    return tx;
+  }
+
+  /**
+   * Build the creator's transaction changing the on-chain title and description
+   */
+  buildUpdateMetadataTransaction(
+    contentObjectId: string,
+    title: string,
+    description: string,
+    creatorAddress: string
+  ): Transaction {
+    const tx = new Transaction();
+    addUpdateMetadataCall(
+      tx,
+      this.contentModule(),
+      contentObjectId,
+      title,
+      description
+    );
+    tx.setSender(creatorAddress);
+    return tx;
+  }
+
+  /**
+   * Build the creator's transaction taking content off sale for good
+   * Existing receipts keep working; new purchases abort with EDelisted
+   */
+  buildDelistTransaction(
+    contentObjectId: string,
+    creatorAddress: string
+  ): Transaction {
+    const tx = new Transaction();
+    addDelistCall(tx, this.contentModule(), contentObjectId);
+    tx.setSender(creatorAddress);
+    return tx;
+  }
+
+  private contentModule(): ContentModule {
+    return { packageId: this.packageId, moduleName: this.moduleName };
+  }
+
+  /**
+   * Helper: Fully qualified Move type of ContentItem in the configured package
+   */
+  getContentItemType(): string {
+    return `${normalizeSuiAddress(this.packageId)}::${this.moduleName}::ContentItem`;
+  }
+
+  /**
+   * Helper: Fully qualified Move type of AccessReceipt in the configured package
+   */
+  getAccessReceiptType(): string {
+    return `${normalizeSuiAddress(this.packageId)}::${this.moduleName}::AccessReceipt`;
+  }
+
+  /**
+   * Helper: Fully qualified Move type of SubscriptionReceipt in the configured package
+   */
+  getSubscriptionReceiptType(): string {
+    return `${normalizeSuiAddress(this.packageId)}::${this.moduleName}::SubscriptionReceipt`;
+  }
+
   /**
    * Helper: Query content details from chain
+   * Callers should compare objectType with getContentItemType()
    */
   async getContentDetails(
     contentObjectId: string
-  ): Promise<ContentMetadata | null> {
+  ): Promise<ContentItemDetails | null> {
     try {
       const obj = await this.client.getObject({
         id: contentObjectId,
@@ -241,6 +1678,13 @@ export class X402Server {
       }
 
       const fields = obj.data.content.fields as Record<string, unknown>;
+      const [coinType, subscriptionPeriodMs, recipients, delisted] =
+        await Promise.all([
+          this.getPaymentCoinType(contentObjectId),
+          this.getSubscriptionPeriod(contentObjectId),
+          this.getRevenueSplit(contentObjectId),
+          this.isDelisted(contentObjectId),
+        ]);
 
       return {
         id: contentObjectId,
@@ -249,6 +1693,11 @@ export class X402Server {
         price: String(fields.price),
         contentUrl: this.decodeString(fields.content_url as number[]),
         creator: String(fields.creator),
+        coinType,
+        subscriptionPeriodMs,
+        recipients,
+        objectType: obj.data.content.type,
+        delisted,
       };
     } catch (error) {
       console.error("Failed to fetch content:", error);
@@ -256,6 +1705,98 @@ export class X402Server {
     }
   }
 
+  /**
+   * Helper: Coin a ContentItem is priced in
+   * Read from the PaymentCoinKey dynamic field, SUI if absent
+   */
+  async getPaymentCoinType(contentObjectId: string): Promise<string> {
+    const field = await this.client.getDynamicFieldObject({
+      parentId: contentObjectId,
+      name: {
+        type: `${this.packageId}::${this.moduleName}::PaymentCoinKey`,
+        value: { dummy_field: false },
+      },
+    });
+
+    if (field.data?.content?.dataType !== "moveObject") {
+      return normalizeStructTag(SUI_TYPE_ARG);
+    }
+
+    // Field<PaymentCoinKey, TypeName> - TypeName.name has no 0x prefix
+    const fields = field.data.content.fields as {
+      value: { fields: { name: string } };
+    };
+    return normalizeStructTag(`0x${fields.value.fields.name}`);
+  }
+
+  /**
+   * Helper: Period one payment buys on subscription content, in ms
+   * Read from the SubscriptionPeriodKey dynamic field, undefined if absent
+   */
+  async getSubscriptionPeriod(
+    contentObjectId: string
+  ): Promise<string | undefined> {
+    const field = await this.client.getDynamicFieldObject({
+      parentId: contentObjectId,
+      name: {
+        type: `${this.packageId}::${this.moduleName}::SubscriptionPeriodKey`,
+        value: { dummy_field: false },
+      },
+    });
+
+    if (field.data?.content?.dataType !== "moveObject") {
+      return undefined;
+    }
+
+    // Field<SubscriptionPeriodKey, u64>
+    const fields = field.data.content.fields as { value: string };
+    return String(fields.value);
+  }
+
+  /**
+   * Helper: Co-recipients' shares of each payment for a ContentItem
+   * Read from the RevenueSplitKey dynamic field, undefined if absent
+   */
+  async getRevenueSplit(
+    contentObjectId: string
+  ): Promise<RevenueShare[] | undefined> {
+    const field = await this.client.getDynamicFieldObject({
+      parentId: contentObjectId,
+      name: {
+        type: `${this.packageId}::${this.moduleName}::RevenueSplitKey`,
+        value: { dummy_field: false },
+      },
+    });
+
+    if (field.data?.content?.dataType !== "moveObject") {
+      return undefined;
+    }
+
+    // Field<RevenueSplitKey, vector<RevenueShare>>
+    const fields = field.data.content.fields as {
+      value: { fields: { recipient: string; bps: string } }[];
+    };
+    return fields.value.map(({ fields: share }) => ({
+      recipient: share.recipient,
+      bps: Number(share.bps),
+    }));
+  }
+
+  /**
+   * Helper: Whether the creator took a ContentItem off sale
+   * True once the DelistedKey dynamic field exists
+   */
+  async isDelisted(contentObjectId: string): Promise<boolean> {
+    const field = await this.client.getDynamicFieldObject({
+      parentId: contentObjectId,
+      name: {
+        type: `${this.packageId}::${this.moduleName}::DelistedKey`,
+        value: { dummy_field: false },
+      },
+    });
+    return field.data?.content?.dataType === "moveObject";
+  }
+
   /**
    * Helper: Decode vector<u8> to string
    */
@@ -267,31 +1808,190 @@ export class X402Server {
   }
 
   /**
-   * Helper: Check if address owns access receipt for content
+   * Check if an address owns an AccessReceipt or unexpired SubscriptionReceipt
+   * for the content
+   * With a receiptId, that one object is checked instead of every owned receipt
    */
-  async hasAccess(ownerAddress: string, contentId: string): Promise<boolean> {
+  async hasAccess(
+    ownerAddress: string,
+    contentId: string,
+    receiptId?: string
+  ): Promise<boolean> {
     try {
-      const objects = await this.client.getOwnedObjects({
-        owner: ownerAddress,
-        filter: {
-          StructType: `${this.packageId}::${this.moduleName}::AccessReceipt`,
-        },
-        options: { showContent: true },
-      });
+      if (receiptId) {
+        const owned = await fetchAccessReceipt(
+          this.client,
+          receiptId,
+          this.receiptTypes()
+        );
+        return (
+          !!owned?.owner &&
+          normalizeSuiAddress(owned.owner) ===
+            normalizeSuiAddress(ownerAddress) &&
+          normalizeSuiObjectId(owned.receipt.contentId) ===
+            normalizeSuiObjectId(contentId) &&
+          isReceiptActive(owned.receipt)
+        );
+      }
 
-      // Check if any receipt matches the content ID
-      return objects.data.some((obj) => {
-        if (obj.data?.content && obj.data.content.dataType === "moveObject") {
-          const fields = obj.data.content.fields as Record<string, unknown>;
-          return fields.content_id === contentId;
-        }
-        return false;
-      });
+      const receipts = await this.getAccessReceipts(ownerAddress);
+      return receipts.some(
+        (receipt) =>
+          normalizeSuiObjectId(receipt.contentId) ===
+            normalizeSuiObjectId(contentId) && isReceiptActive(receipt)
+      );
     } catch (error) {
       console.error("Access check failed:", error);
       return false;
     }
   }
+
+  /**
+   * Every AccessReceipt and SubscriptionReceipt an address owns, across all pages
+   * Lapsed subscriptions are included, so they can be renewed
+   * Cached per address for receiptCacheTtlMs, until invalidateAccess()
+   */
+  async getAccessReceipts(ownerAddress: string): Promise<AccessReceiptData[]> {
+    return this.receiptCache.load(ownerAddress, () =>
+      fetchAccessReceipts(this.client, ownerAddress, this.receiptTypes())
+    );
+  }
+
+  private receiptTypes(): string[] {
+    return [this.getAccessReceiptType(), this.getSubscriptionReceiptType()];
+  }
+
+  /**
+   * The buyer's SubscriptionReceipt for the content, latest expiry first
+   */
+  private async findSubscriptionReceipt(
+    ownerAddress: string,
+    contentId: string
+  ): Promise<AccessReceiptData | undefined> {
+    const receipts = await this.getAccessReceipts(ownerAddress);
+    return receipts
+      .filter(
+        (receipt) =>
+          receipt.expiresAt !== undefined &&
+          normalizeSuiObjectId(receipt.contentId) ===
+            normalizeSuiObjectId(contentId)
+      )
+      .sort((a, b) => Number(b.expiresAt) - Number(a.expiresAt))[0];
+  }
+
+  /**
+   * Drop an address's cached receipts, e.g. after it buys something
+   */
+  invalidateAccess(ownerAddress: string): void {
+    this.receiptCache.invalidate(ownerAddress);
+  }
+
+  /**
+   * Issue a one-time challenge the wallet must sign to prove it owns an address
+   * Nonces are kept in memory and consumed by verifyAccessProof
+   * Throws AccessChallengeLimitError past the per-client or overall cap of
+   * outstanding challenges; issued ones are never dropped early
+   */
+  createAccessChallenge(
+    address: string,
+    contentId: string,
+    clientIp?: string
+  ): AccessChallenge {
+    const now = Date.now();
+    let issuedToClient = 0;
+    for (const [nonce, challenge] of this.accessChallenges) {
+      if (challenge.expiresAt <= now) {
+        this.accessChallenges.delete(nonce);
+      } else if (clientIp && challenge.clientIp === clientIp) {
+        issuedToClient++;
+      }
+    }
+
+    if (issuedToClient >= this.maxAccessChallengesPerClient) {
+      throw new AccessChallengeLimitError(
+        "Too many outstanding challenges from this client, sign or wait for one to expire"
+      );
+    }
+    if (this.accessChallenges.size >= this.maxAccessChallenges) {
+      throw new AccessChallengeLimitError();
+    }
+
+    const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    const expiresAt = now + this.accessChallengeTtlMs;
+    const challenge: AccessChallenge = {
+      address,
+      contentId,
+      nonce,
+      message: buildAccessChallengeMessage(
+        address,
+        contentId,
+        nonce,
+        expiresAt
+      ),
+      expiresAt,
+    };
+
+    this.accessChallenges.set(nonce, { ...challenge, clientIp });
+    return challenge;
+  }
+
+  /**
+   * Verify a signed access challenge, then check the address owns a receipt
+   * The nonce is consumed whether or not verification succeeds
+   */
+  async verifyAccessProof(
+    proof: AccessProof,
+    contentId: string
+  ): Promise<AccessProofResult> {
+    const challenge = this.accessChallenges.get(proof.nonce);
+    if (!challenge) {
+      return { granted: false, reason: "unknown_nonce" };
+    }
+    this.accessChallenges.delete(proof.nonce);
+
+    if (challenge.expiresAt <= Date.now()) {
+      return { granted: false, reason: "expired" };
+    }
+
+    if (
+      normalizeSuiAddress(challenge.address) !==
+        normalizeSuiAddress(proof.address) ||
+      challenge.contentId !== proof.contentId ||
+      challenge.contentId !== contentId
+    ) {
+      return { granted: false, reason: "mismatch" };
+    }
+
+    try {
+      await verifyPersonalMessageSignature(
+        new TextEncoder().encode(challenge.message),
+        proof.signature,
+        { address: challenge.address, client: this.client }
+      );
+    } catch {
+      return { granted: false, reason: "invalid_signature" };
+    }
+
+    const granted = await this.hasAccess(
+      challenge.address,
+      contentId,
+      proof.receiptId
+    );
+    return granted
+      ? { granted: true }
+      : { granted: false, reason: "no_receipt" };
+  }
+}
+
+/**
+ * Whether a transaction lookup failed because the digest is unknown, as
+ * opposed to a transient RPC error
+ */
+function isTransactionNotFound(error: unknown): boolean {
+  return (
+    error instanceof JsonRpcError &&
+    /could not find the referenced transaction/i.test(error.message)
+  );
 }
 
 /**
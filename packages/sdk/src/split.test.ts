@@ -0,0 +1,222 @@
+import { describe, expect, test } from "bun:test";
+import { bcs } from "@mysten/sui/bcs";
+import type { SuiClient } from "@mysten/sui/client";
+import { fromBase64 } from "@mysten/sui/utils";
+import { X402Error } from "./errors.js";
+import { X402Server } from "./server.js";
+import { MAX_BPS, splitRevenue } from "./split.js";
+import { PAY_TO_ITEMS } from "./x402.js";
+import type { ContentMetadata, RevenueShare } from "./types.js";
+
+const PACKAGE_ID = `0x${"1".repeat(64)}`;
+const CONTENT_ID = `0x${"c".repeat(64)}`;
+const CREATOR = `0x${"a".repeat(64)}`;
+const COAUTHOR = `0x${"b".repeat(64)}`;
+const PLATFORM = `0x${"d".repeat(64)}`;
+const BUYER = `0x${"e".repeat(64)}`;
+
+const content: ContentMetadata = {
+  id: CONTENT_ID,
+  title: "Shared article",
+  description: "Written by two",
+  price: "1000000001",
+  contentUrl: "",
+  creator: CREATOR,
+};
+
+/**
+ * SuiClient serving one ContentItem's RevenueSplitKey field, and nothing else
+ */
+function mockClient(split: { shares?: RevenueShare[] }): SuiClient {
+  return {
+    getDynamicFieldObject: async ({ name }: { name: { type: string } }) =>
+      name.type.endsWith("::RevenueSplitKey") && split.shares
+        ? {
+            data: {
+              content: {
+                dataType: "moveObject",
+                fields: {
+                  value: split.shares.map((share) => ({
+                    fields: {
+                      recipient: share.recipient,
+                      bps: String(share.bps),
+                    },
+                  })),
+                },
+              },
+            },
+          }
+        : { error: { code: "dynamicFieldNotFound" } },
+  } as unknown as SuiClient;
+}
+
+describe("splitRevenue", () => {
+  test("pays each share rounded down and the creator the remainder", () => {
+    const payouts = splitRevenue("1000000001", CREATOR, [
+      { recipient: COAUTHOR, bps: 3000 },
+      { recipient: PLATFORM, bps: 250 },
+    ]);
+
+    expect(payouts).toEqual([
+      { recipient: COAUTHOR, bps: 3000, amount: "300000000" },
+      { recipient: PLATFORM, bps: 250, amount: "25000000" },
+      { recipient: CREATOR, bps: 6750, amount: "675000001" },
+    ]);
+    const total = payouts.reduce((sum, { amount }) => sum + BigInt(amount), 0n);
+    expect(total).toBe(1000000001n);
+  });
+
+  test("gives the creator everything without recipients", () => {
+    expect(splitRevenue("42", CREATOR)).toEqual([
+      { recipient: CREATOR, bps: MAX_BPS, amount: "42" },
+    ]);
+  });
+
+  test("rounds shares smaller than one unit down to zero", () => {
+    const [share, creator] = splitRevenue("3", CREATOR, [
+      { recipient: COAUTHOR, bps: 3000 },
+    ]);
+    expect(share!.amount).toBe("0");
+    expect(creator!.amount).toBe("3");
+  });
+
+  test("rejects shares over 10000 bps", () => {
+    expect(() =>
+      splitRevenue("100", CREATOR, [
+        { recipient: COAUTHOR, bps: 6000 },
+        { recipient: PLATFORM, bps: 4001 },
+      ])
+    ).toThrow(X402Error);
+  });
+});
+
+describe("402 split disclosure", () => {
+  test("discloses the split stored on chain", async () => {
+    const server = new X402Server({
+      suiClient: mockClient({
+        shares: [{ recipient: COAUTHOR, bps: 2000 }],
+      }),
+      packageId: PACKAGE_ID,
+    });
+
+    const requirements = await server.generatePaymentRequirements(
+      content,
+      "/content/shared"
+    );
+
+    expect(requirements.payTo).toBe(CREATOR);
+    expect(requirements.extra.split).toEqual([
+      { recipient: COAUTHOR, bps: 2000, amount: "200000000" },
+      { recipient: CREATOR, bps: 8000, amount: "800000001" },
+    ]);
+  });
+
+  test("follows set_revenue_split rather than the registered copy", async () => {
+    const chain: { shares?: RevenueShare[] } = {
+      shares: [{ recipient: COAUTHOR, bps: 2000 }],
+    };
+    const server = new X402Server({
+      suiClient: mockClient(chain),
+      packageId: PACKAGE_ID,
+    });
+    const registered = {
+      ...content,
+      recipients: [{ recipient: COAUTHOR, bps: 2000 }],
+    };
+
+    chain.shares = [{ recipient: PLATFORM, bps: 500 }];
+    const changed = await server.generatePaymentRequirements(registered, "/");
+    expect(changed.extra.split?.[0]).toEqual({
+      recipient: PLATFORM,
+      bps: 500,
+      amount: "50000000",
+    });
+
+    chain.shares = undefined;
+    const removed = await server.generatePaymentRequirements(registered, "/");
+    expect(removed.extra.split).toBeUndefined();
+  });
+
+  test("discloses each bundle item's split", async () => {
+    const server = new X402Server({
+      suiClient: mockClient({
+        shares: [{ recipient: PLATFORM, bps: 1000 }],
+      }),
+      packageId: PACKAGE_ID,
+    });
+
+    const requirements = await server.generateBundlePaymentRequirements(
+      [content, { ...content, id: `0x${"f".repeat(64)}`, price: "10" }],
+      "/bundles"
+    );
+
+    expect(
+      requirements.extra.items?.map((item) =>
+        item.split?.map((payout) => payout.amount)
+      )
+    ).toEqual([
+      ["100000000", "900000001"],
+      ["1", "9"],
+    ]);
+  });
+});
+
+describe("bundle payTo", () => {
+  const server = new X402Server({
+    suiClient: mockClient({}),
+    packageId: PACKAGE_ID,
+  });
+  const other = { ...content, id: `0x${"f".repeat(64)}` };
+
+  test("is the creator when every item shares one", async () => {
+    const requirements = await server.generateBundlePaymentRequirements(
+      [content, other],
+      "/bundles"
+    );
+    expect(requirements.payTo).toBe(CREATOR);
+  });
+
+  test("defers to the items when creators differ", async () => {
+    const requirements = await server.generateBundlePaymentRequirements(
+      [content, { ...other, creator: COAUTHOR }],
+      "/bundles"
+    );
+    expect(requirements.payTo).toBe(PAY_TO_ITEMS);
+    expect(requirements.extra.items?.map((item) => item.payTo)).toEqual([
+      CREATOR,
+      COAUTHOR,
+    ]);
+  });
+});
+
+describe("purchase PTB", () => {
+  test("pays the whole price into purchase_and_grant_access", async () => {
+    const server = new X402Server({
+      suiClient: mockClient({}),
+      packageId: PACKAGE_ID,
+    });
+
+    const tx = await server.buildPurchaseTransaction({
+      contentObjectId: CONTENT_ID,
+      price: content.price,
+      creator: CREATOR,
+      buyerAddress: BUYER,
+    });
+    const data = tx.getData();
+    const [split, call] = data.commands;
+
+    // Self-pay SUI: the price is split from the buyer's gas coin
+    expect(split?.SplitCoins?.coin.$kind).toBe("GasCoin");
+    const [amount] = split!.SplitCoins!.amounts;
+    const input = data.inputs[amount!.$kind === "Input" ? amount!.Input : -1];
+    expect(bcs.u64().parse(fromBase64(input!.Pure!.bytes))).toBe(content.price);
+
+    // The split itself happens on chain, inside pay_creator
+    expect(call?.MoveCall?.function).toBe("purchase_and_grant_access");
+    expect(call?.MoveCall?.arguments[1]).toEqual({
+      $kind: "NestedResult",
+      NestedResult: [0, 0],
+    });
+    expect(data.sender).toBe(BUYER);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Revenue Splits
+ * Co-authors or a platform can take a basis-point share of every payment
+ * content_access::pay_creator splits the coin on-chain, inside the purchase
+ * itself; these helpers compute the same amounts for the 402 disclosure
+ */
+
+import { X402Error } from "./errors.js";
+import type { RevenuePayout, RevenueShare } from "./types.js";
+
+/** Shares are in basis points: 10000 is the whole price */
+export const MAX_BPS = 10_000;
+
+/**
+ * What each recipient is paid for one purchase at price
+ * Shares round down, as on-chain; the creator gets the remainder, listed last
+ */
+export function splitRevenue(
+  price: string,
+  creator: string,
+  recipients: RevenueShare[] = []
+): RevenuePayout[] {
+  const total = BigInt(price);
+  const bps = recipients.reduce((sum, share) => sum + share.bps, 0);
+  if (bps > MAX_BPS) {
+    throw new X402Error(
+      "INVALID_CONTENT",
+      `Revenue shares add up to ${bps} bps, more than ${MAX_BPS}`
+    );
+  }
+
+  const payouts = recipients.map((share) => ({
+    recipient: share.recipient,
+    bps: share.bps,
+    amount: String((total * BigInt(share.bps)) / BigInt(MAX_BPS)),
+  }));
+  const shared = payouts.reduce(
+    (sum, payout) => sum + BigInt(payout.amount),
+    0n
+  );
+
+  return [
+    ...payouts,
+    {
+      recipient: creator,
+      bps: MAX_BPS - bps,
+      amount: String(total - shared),
+    },
+  ];
+}
@@ -1,44 +1,153 @@
 /**
  * Shared types for x402 SDK
+ * Wire types are inferred from the runtime schemas in schemas.ts
  */
 
-export interface X402Response {
-  statusCode: 402;
-  message: string;
-  paymentRequired: {
-    amount: string; // Amount in MIST (smallest unit)
-    recipient: string; // Sui address
-    transactionBytes: string; // Base64 encoded transaction
-    description: string;
-  };
-}
+import type * as v from "valibot";
+import type {
+  AccessChallengeSchema,
+  AccessProofSchema,
+  AccessReceiptDataSchema,
+  ApiEnvelopeSchema,
+  BundleItemSchema,
+  ContentItemDetailsSchema,
+  ContentMetadataSchema,
+  EncryptedContentPayloadSchema,
+  EncryptedContentSchema,
+  ExecuteResultSchema,
+  PaymentPayloadSchema,
+  PaymentQuoteSchema,
+  PaymentRequiredResponseSchema,
+  PaymentRequirementsSchema,
+  RevenuePayoutSchema,
+  RevenueShareSchema,
+  SettlementResponseSchema,
+  SignedTransactionRequestSchema,
+  TransactionResultSchema,
+  WrappedContentKeySchema,
+  X402ErrorBodySchema,
+  X402ErrorCodeSchema,
+  X402ResponseSchema,
+} from "./schemas.js";
 
-export interface ContentMetadata {
-  id: string;
-  title: string;
-  description: string;
-  price: string; // In MIST
-  contentUrl: string;
-  creator: string;
-}
+export type X402Response = v.InferOutput<typeof X402ResponseSchema>;
 
-export interface AccessReceiptData {
-  id: string;
-  contentId: string;
-  contentTitle: string;
-  pricePaid: string;
-  purchaser: string;
-  timestamp: string;
-}
+/** Server-issued, expiring quote bound to one transaction */
+export type PaymentQuote = v.InferOutput<typeof PaymentQuoteSchema>;
 
-export interface SignedTransactionRequest {
-  transactionBytes: string;
-  signature: string;
-  publicKey: string;
-}
+// ===== Standard x402 wire format =====
+
+export type PaymentRequirements = v.InferOutput<
+  typeof PaymentRequirementsSchema
+>;
+
+/** 402 body, also sent base64 encoded in the PAYMENT-REQUIRED header */
+export type PaymentRequiredResponse = v.InferOutput<
+  typeof PaymentRequiredResponseSchema
+>;
+
+/** Decoded X-PAYMENT request header */
+export type PaymentPayload = v.InferOutput<typeof PaymentPayloadSchema>;
+
+/** Decoded X-PAYMENT-RESPONSE header */
+export type SettlementResponse = v.InferOutput<typeof SettlementResponseSchema>;
+
+export type ContentMetadata = v.InferOutput<typeof ContentMetadataSchema>;
+
+export type RevenueShare = v.InferOutput<typeof RevenueShareSchema>;
+
+export type RevenuePayout = v.InferOutput<typeof RevenuePayoutSchema>;
+
+/** One item of a bundle purchase, in a bundle's 402 */
+export type BundleItem = v.InferOutput<typeof BundleItemSchema>;
+
+export type ContentItemDetails = v.InferOutput<typeof ContentItemDetailsSchema>;
+
+export type AccessReceiptData = v.InferOutput<typeof AccessReceiptDataSchema>;
+
+export type SignedTransactionRequest = v.InferOutput<
+  typeof SignedTransactionRequestSchema
+>;
+
+export type TransactionResult = v.InferOutput<typeof TransactionResultSchema>;
+
+export type AccessChallenge = v.InferOutput<typeof AccessChallengeSchema>;
+
+export type AccessProof = v.InferOutput<typeof AccessProofSchema>;
+
+export type EncryptedContent = v.InferOutput<typeof EncryptedContentSchema>;
 
-export interface TransactionResult {
-  digest: string;
-  status: "success" | "failure";
-  effects?: any;
+export type WrappedContentKey = v.InferOutput<typeof WrappedContentKeySchema>;
+
+/** Encrypted blob plus its content key, wrapped for the buyer */
+export type EncryptedContentPayload = v.InferOutput<
+  typeof EncryptedContentPayloadSchema
+>;
+
+export type AccessProofFailure =
+  | "unknown_nonce"
+  | "expired"
+  | "mismatch"
+  | "invalid_signature"
+  | "no_receipt";
+
+export type AccessProofResult =
+  | { granted: true }
+  | { granted: false; reason: AccessProofFailure };
+
+export type SponsorRejectionReason =
+  | "malformed_transaction"
+  | "unexpected_commands"
+  | "content_mismatch"
+  | "gas_owner_mismatch"
+  | "gas_budget_exceeded"
+  | "sender_mismatch"
+  | "gas_coin_not_leased"
+  | "unknown_quote"
+  | "quote_expired"
+  | "quote_consumed"
+  | "idempotency_key_reused";
+
+export type SponsorValidationResult =
+  | { valid: true }
+  | { valid: false; reason: SponsorRejectionReason; message: string };
+
+export type SponsorPolicyViolation =
+  | "address_denied"
+  | "address_not_allowed"
+  | "transaction_gas_limit"
+  | "address_daily_limit"
+  | "ip_daily_limit"
+  | "global_daily_limit"
+  | "sponsor_balance_low"
+  | "quote_limit";
+
+export type SponsorPolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: SponsorPolicyViolation; message: string };
+
+/**
+ * Request details passed through from the HTTP layer
+ */
+export interface PurchaseContext {
+  ip?: string; // Client IP, for the sponsor policy
+  quoteId?: string; // Quote the client says it's paying
+  idempotencyKey?: string; // Client retry key, bound to one transaction
 }
+
+/**
+ * Stable error codes, sent as `code` in every server JSON error body
+ */
+export type X402ErrorCode = v.InferOutput<typeof X402ErrorCodeSchema>;
+
+export type X402ErrorBody = v.InferOutput<typeof X402ErrorBodySchema>;
+
+/**
+ * JSON body of every API response, `data` set on success
+ */
+export type ApiResponse<T> = v.InferOutput<typeof ApiEnvelopeSchema> & {
+  data?: T;
+};
+
+/** Data of a successful POST /content/:id/execute */
+export type ExecuteResult = v.InferOutput<typeof ExecuteResultSchema>;
@@ -0,0 +1,356 @@
+import { describe, expect, test } from "bun:test";
+import type { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  normalizeSuiObjectId,
+  toBase58,
+  toBase64,
+} from "@mysten/sui/utils";
+import type { GasCoinPool, GasCoinRef } from "./pool.js";
+import { X402Server } from "./server.js";
+
+const PACKAGE_ID = `0x${"1".repeat(64)}`;
+const OTHER_PACKAGE_ID = `0x${"2".repeat(64)}`;
+const CONTENT_ID = `0x${"c".repeat(64)}`;
+const OTHER_CONTENT_ID = `0x${"d".repeat(64)}`;
+const RECEIPT_ID = `0x${"e".repeat(64)}`;
+const SHARED_COIN_ID = `0x${"f".repeat(64)}`;
+const CREATOR = `0x${"a".repeat(64)}`;
+const BUYER_COINS = [`0x${"b1".repeat(32)}`, `0x${"b2".repeat(32)}`];
+const PRICE = "1000";
+const MAX_GAS_BUDGET = 5_000_000n;
+
+const buyer = new Ed25519Keypair();
+const sponsor = new Ed25519Keypair();
+
+const ref = (objectId: string, version = "1"): GasCoinRef => ({
+  objectId,
+  version,
+  digest: toBase58(new Uint8Array(32).fill(7)),
+});
+const SPONSOR_GAS = ref(`0x${"5".repeat(64)}`);
+const LEASED_GAS = ref(`0x${"6".repeat(64)}`);
+
+const SHARED = new Set(
+  [CONTENT_ID, OTHER_CONTENT_ID, SHARED_COIN_ID, "0x6"].map((id) =>
+    normalizeSuiObjectId(id)
+  )
+);
+
+const struct = (address: string, module: string, name: string) => ({
+  Struct: { address, module, name, typeArguments: [] },
+});
+const CONTENT_PARAM = {
+  Reference: struct(PACKAGE_ID, "content_access", "ContentItem"),
+};
+const COIN_PARAM = struct("0x2", "coin", "Coin");
+const CLOCK_PARAM = { Reference: struct("0x2", "clock", "Clock") };
+const CONTEXT_PARAM = {
+  MutableReference: struct("0x2", "tx_context", "TxContext"),
+};
+
+/**
+ * SuiClient serving what the builders and Transaction#build read: the
+ * buyer's coins (two, so payment merges), objects and Move signatures
+ */
+const client = {
+  getCoins: async () => ({
+    data: BUYER_COINS.map((coinObjectId) => ({ coinObjectId, balance: "600" })),
+    hasNextPage: false,
+  }),
+  multiGetObjects: async ({ ids }: { ids: string[] }) =>
+    ids.map((id) => ({
+      data: {
+        ...ref(id),
+        owner: SHARED.has(normalizeSuiObjectId(id))
+          ? { Shared: { initial_shared_version: "1" } }
+          : { AddressOwner: buyer.toSuiAddress() },
+      },
+    })),
+  getNormalizedMoveFunction: async ({
+    function: name,
+  }: {
+    function: string;
+  }) =>
+    name.startsWith("renew_subscription")
+      ? {
+          parameters: [
+            CONTENT_PARAM,
+            {
+              MutableReference: struct(
+                PACKAGE_ID,
+                "content_access",
+                "SubscriptionReceipt"
+              ),
+            },
+            COIN_PARAM,
+            CLOCK_PARAM,
+            CONTEXT_PARAM,
+          ],
+        }
+      : { parameters: [CONTENT_PARAM, COIN_PARAM, CLOCK_PARAM, CONTEXT_PARAM] },
+} as unknown as SuiClient;
+
+/**
+ * GasCoinPool leasing one coin, leased for whichever digests are bound
+ */
+function stubPool() {
+  const bound = new Set<string>();
+  const pool = {
+    lease: async () => ({ coin: LEASED_GAS, expiresAt: Date.now() + 60_000 }),
+    isLeased: (objectId: string, digest: string) =>
+      objectId === LEASED_GAS.objectId && bound.has(digest),
+  } as unknown as GasCoinPool;
+  return { pool, bound };
+}
+
+function sponsored(gasPool?: GasCoinPool) {
+  return new X402Server({
+    suiClient: client,
+    packageId: PACKAGE_ID,
+    sponsorKeypair: sponsor,
+    maxGasBudget: String(MAX_GAS_BUDGET),
+    gasPool,
+  });
+}
+
+const purchase = {
+  contentObjectId: CONTENT_ID,
+  price: PRICE,
+  creator: CREATOR,
+  buyerAddress: buyer.toSuiAddress(),
+};
+
+/**
+ * Build the PTB as the buyer's wallet would, and sign it
+ */
+async function signed(tx: Transaction) {
+  const { gasData, sender } = tx.getData();
+  tx.setGasPrice(1000);
+  if (!gasData.budget) tx.setGasBudget(MAX_GAS_BUDGET);
+  if (!gasData.payment && gasData.owner !== sender) {
+    tx.setGasPayment([SPONSOR_GAS]);
+  }
+  if (!gasData.payment && gasData.owner === sender) {
+    tx.setGasPayment([ref(BUYER_COINS[0]!)]);
+  }
+  const bytes = await tx.build({ client });
+  const { signature } = await buyer.signTransaction(bytes);
+  return {
+    bytes: toBase64(bytes),
+    signature,
+    publicKey: buyer.getPublicKey().toBase64(),
+    digest: await tx.getDigest({ client }),
+  };
+}
+
+async function validate(
+  server: X402Server,
+  tx: Transaction,
+  contentObjectId: string | string[] = CONTENT_ID
+) {
+  const { bytes, signature, publicKey } = await signed(tx);
+  return server.validatePurchaseTransaction(
+    bytes,
+    signature,
+    publicKey,
+    contentObjectId
+  );
+}
+
+/**
+ * The builder's PTB, hand-made so each part can be swapped out
+ */
+function purchasePtb(
+  options: {
+    target?: string;
+    contentId?: string;
+    sources?: (tx: Transaction) => Parameters<Transaction["mergeCoins"]>[1];
+  } = {}
+) {
+  const tx = new Transaction();
+  const coin = tx.object(BUYER_COINS[0]!);
+  tx.mergeCoins(coin, options.sources?.(tx) ?? [tx.object(BUYER_COINS[1]!)]);
+  const [payment] = tx.splitCoins(coin, [BigInt(PRICE)]);
+  tx.moveCall({
+    target:
+      options.target ??
+      `${PACKAGE_ID}::content_access::purchase_and_grant_access`,
+    arguments: [
+      tx.object(options.contentId ?? CONTENT_ID),
+      payment!,
+      tx.object("0x6"),
+    ],
+  });
+  tx.setSender(buyer.toSuiAddress());
+  tx.setGasOwner(sponsor.toSuiAddress());
+  return tx;
+}
+
+describe("validatePurchaseTransaction", () => {
+  describe("accepts the builders' own PTBs", () => {
+    const server = sponsored();
+
+    test("a sponsored purchase, merging the buyer's coins", async () => {
+      const tx = await server.buildPurchaseTransaction(purchase);
+      expect(tx.getData().commands[0]?.MergeCoins).toBeDefined();
+      expect(await validate(server, tx)).toEqual({ valid: true });
+    });
+
+    test("a subscription and a renewal", async () => {
+      const subscribe = await server.buildSubscribeTransaction(purchase);
+      expect(await validate(server, subscribe)).toEqual({ valid: true });
+
+      const renew = await server.buildRenewTransaction({
+        ...purchase,
+        receiptId: RECEIPT_ID,
+      });
+      expect(await validate(server, renew)).toEqual({ valid: true });
+    });
+
+    test("a self-pay purchase split from the gas coin", async () => {
+      const selfPay = new X402Server({
+        suiClient: client,
+        packageId: PACKAGE_ID,
+      });
+      const tx = await selfPay.buildPurchaseTransaction(purchase);
+      expect(await validate(selfPay, tx)).toEqual({ valid: true });
+    });
+
+    test("a hand-made copy of the builder's shape", async () => {
+      expect(await validate(server, purchasePtb())).toEqual({ valid: true });
+    });
+  });
+
+  describe("rejects", () => {
+    const server = sponsored();
+    const rejected = async (tx: Transaction) => {
+      const result = await validate(server, tx);
+      return result.valid ? "valid" : result.reason;
+    };
+
+    test("an extra TransferObjects", async () => {
+      const tx = await server.buildPurchaseTransaction(purchase);
+      tx.transferObjects([tx.gas], OTHER_PACKAGE_ID);
+      expect(await rejected(tx)).toBe("unexpected_commands");
+    });
+
+    test("an extra MoveCall", async () => {
+      const tx = await server.buildPurchaseTransaction(purchase);
+      tx.moveCall({
+        target: "0x2::coin::zero",
+        typeArguments: ["0x2::sui::SUI"],
+      });
+      expect(await rejected(tx)).toBe("unexpected_commands");
+    });
+
+    test("a call into a foreign package", async () => {
+      const tx = purchasePtb({
+        target: `${OTHER_PACKAGE_ID}::content_access::purchase_and_grant_access`,
+      });
+      expect(await rejected(tx)).toBe("unexpected_commands");
+    });
+
+    test("a call into a foreign module", async () => {
+      const tx = purchasePtb({
+        target: `${PACKAGE_ID}::marketplace::purchase_and_grant_access`,
+      });
+      expect(await rejected(tx)).toBe("unexpected_commands");
+    });
+
+    test("a purchase of another content object", async () => {
+      const tx = purchasePtb({ contentId: OTHER_CONTENT_ID });
+      expect(await rejected(tx)).toBe("content_mismatch");
+    });
+
+    test("a gas owner other than the sponsor", async () => {
+      const tx = await server.buildPurchaseTransaction(purchase);
+      tx.setGasOwner(buyer.toSuiAddress());
+      tx.setGasPayment([SPONSOR_GAS]);
+      expect(await rejected(tx)).toBe("gas_owner_mismatch");
+    });
+
+    test("a gas budget over the cap", async () => {
+      const tx = await server.buildPurchaseTransaction(purchase);
+      tx.setGasBudget(MAX_GAS_BUDGET + 1n);
+      expect(await rejected(tx)).toBe("gas_budget_exceeded");
+    });
+
+    test("merging the sponsor's gas coin into the payment", async () => {
+      const tx = purchasePtb({ sources: (tx) => [tx.gas] });
+      expect(await rejected(tx)).toBe("unexpected_commands");
+    });
+
+    test("merging a shared object into the payment", async () => {
+      const tx = purchasePtb({
+        sources: (tx) => [tx.object(SHARED_COIN_ID)],
+      });
+      expect(await rejected(tx)).toBe("unexpected_commands");
+    });
+
+    test("a signature from someone other than the sender", async () => {
+      const tx = await server.buildPurchaseTransaction(purchase);
+      const { bytes } = await signed(tx);
+      const { signature } = await new Ed25519Keypair().signTransaction(
+        fromBase64(bytes)
+      );
+      const result = await server.validatePurchaseTransaction(
+        bytes,
+        signature,
+        buyer.getPublicKey().toBase64(),
+        CONTENT_ID
+      );
+      expect(result.valid ? "valid" : result.reason).toBe("sender_mismatch");
+    });
+  });
+
+  describe("with a gas pool", () => {
+    test("accepts the coin leased for the quoted transaction", async () => {
+      const { pool, bound } = stubPool();
+      const server = sponsored(pool);
+      const tx = await server.buildPurchaseTransaction(purchase);
+      const { bytes, signature, publicKey, digest } = await signed(tx);
+      bound.add(digest);
+
+      expect(
+        await server.validatePurchaseTransaction(
+          bytes,
+          signature,
+          publicKey,
+          CONTENT_ID
+        )
+      ).toEqual({ valid: true });
+    });
+
+    test("rejects a gas coin not leased for it", async () => {
+      const { pool, bound } = stubPool();
+      const server = sponsored(pool);
+      const tx = await server.buildPurchaseTransaction(purchase);
+      tx.setGasPayment([SPONSOR_GAS]);
+      const { bytes, signature, publicKey, digest } = await signed(tx);
+      bound.add(digest);
+
+      const result = await server.validatePurchaseTransaction(
+        bytes,
+        signature,
+        publicKey,
+        CONTENT_ID
+      );
+      expect(result.valid ? "valid" : result.reason).toBe(
+        "gas_coin_not_leased"
+      );
+    });
+
+    test("rejects the leased coin on a transaction it wasn't quoted for", async () => {
+      const server = sponsored(stubPool().pool);
+      const tx = await server.buildPurchaseTransaction(purchase);
+
+      const result = await validate(server, tx);
+      expect(result.valid ? "valid" : result.reason).toBe(
+        "gas_coin_not_leased"
+      );
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * x402 wire format helpers
+ * Header names and base64 JSON codecs from the x402 spec
+ */
+
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import * as v from "valibot";
+import { PaymentPayloadSchema, SettlementResponseSchema } from "./schemas.js";
+import type {
+  PaymentPayload,
+  PaymentRequiredResponse,
+  SettlementResponse,
+} from "./types.js";
+
+export const X402_VERSION = 1;
+
+/** Request header carrying a signed PaymentPayload */
+export const PAYMENT_HEADER = "X-PAYMENT";
+
+/** Response header carrying the SettlementResponse */
+export const PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+/** Response header mirroring the PaymentRequiredResponse body */
+export const PAYMENT_REQUIRED_HEADER = "PAYMENT-REQUIRED";
+
+/**
+ * payTo of a bundle whose items have different creators
+ * Not an address: each item's payTo in extra.items says who is paid
+ */
+export const PAY_TO_ITEMS = "extra.items";
+
+/** Request header making /content/:id/execute safe to retry (not x402) */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+function encodeHeader(value: unknown): string {
+  return toBase64(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeHeader(value: string): unknown {
+  try {
+    return JSON.parse(new TextDecoder().decode(fromBase64(value)));
+  } catch {
+    return null;
+  }
+}
+
+export function encodePaymentHeader(payload: PaymentPayload): string {
+  return encodeHeader(payload);
+}
+
+/**
+ * Decode an X-PAYMENT header, returns null if malformed
+ */
+export function decodePaymentHeader(value: string): PaymentPayload | null {
+  const result = v.safeParse(PaymentPayloadSchema, decodeHeader(value));
+  return result.success ? result.output : null;
+}
+
+export function encodePaymentRequiredHeader(
+  response: PaymentRequiredResponse
+): string {
+  return encodeHeader({
+    x402Version: response.x402Version,
+    error: response.error,
+    accepts: response.accepts,
+  });
+}
+
+export function encodePaymentResponseHeader(
+  settlement: SettlementResponse
+): string {
+  return encodeHeader(settlement);
+}
+
+/**
+ * Decode an X-PAYMENT-RESPONSE header, returns null if malformed
+ */
+export function decodePaymentResponseHeader(
+  value: string
+): SettlementResponse | null {
+  const result = v.safeParse(SettlementResponseSchema, decodeHeader(value));
+  return result.success ? result.output : null;
+}
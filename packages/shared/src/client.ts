@@ -0,0 +1,134 @@
+// Typed HTTP client for the server API
+// Methods, paths and body checks all come from API_ROUTES
+import * as v from "valibot";
+import { buildPath } from "@atomic402/sui-sdk/routes";
+import { ApiError } from "./errors.js";
+import { API_ROUTES, type ApiRoute, type ApiRoutes } from "./routes.js";
+import {
+  PaymentRequiredResponseSchema,
+  apiResponseSchema,
+  describeIssues,
+} from "./schemas.js";
+import type { ApiResponse } from "./types.js";
+
+/** Names of the ':name' segments in a path template */
+type PathParams<TPath extends string> =
+  TPath extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | PathParams<`/${Rest}`>
+    : TPath extends `${string}:${infer Name}`
+      ? Name
+      : never;
+
+type RequestOptions<TRoute extends ApiRoute> = (PathParams<
+  TRoute["path"]
+> extends never
+  ? unknown
+  : { params: Record<PathParams<TRoute["path"]>, string> }) &
+  (TRoute extends { query: v.GenericSchema }
+    ? { query: v.InferInput<TRoute["query"]> }
+    : unknown) &
+  (TRoute extends { body: v.GenericSchema }
+    ? { body: v.InferInput<TRoute["body"]> }
+    : unknown) & { headers?: Record<string, string> };
+
+/** Paywalled routes resolve with either the content or the 402 body */
+export type RouteResult<TRoute extends ApiRoute> = TRoute extends {
+  paymentRequired: v.GenericSchema;
+}
+  ?
+      | { paid: true; data: v.InferOutput<TRoute["response"]> }
+      | { paid: false; payment: v.InferOutput<TRoute["paymentRequired"]> }
+  : v.InferOutput<TRoute["response"]>;
+
+export type ApiClient = {
+  [K in keyof ApiRoutes]: (
+    ...args: object extends RequestOptions<ApiRoutes[K]>
+      ? [options?: RequestOptions<ApiRoutes[K]>]
+      : [options: RequestOptions<ApiRoutes[K]>]
+  ) => Promise<RouteResult<ApiRoutes[K]>>;
+};
+
+interface RawOptions {
+  params?: Record<string, string>;
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Call one route, checking the response against its schemas
+ * Error bodies and bodies that don't match throw ApiError
+ */
+async function request(
+  baseUrl: string,
+  route: ApiRoute,
+  options: RawOptions = {}
+): Promise<unknown> {
+  const url = new URL(`${baseUrl}${buildPath(route.path, options.params)}`);
+  for (const [name, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value);
+    }
+  }
+
+  const headers = new Headers(options.headers);
+  if (options.body !== undefined) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  const response = await fetch(url, {
+    method: route.method.toUpperCase(),
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (route.paymentRequired && response.status === 402) {
+    const payment = v.safeParse(route.paymentRequired, body);
+    if (payment.success) {
+      return { paid: false, payment: payment.output };
+    }
+
+    // A 402 without a payable PTB (e.g. low balance) only carries a code
+    const unpayable = v.safeParse(PaymentRequiredResponseSchema, body);
+    if (unpayable.success) {
+      throw new ApiError(unpayable.output, "Payment required", 402);
+    }
+  }
+
+  const result = v.safeParse(apiResponseSchema(route.response), body);
+  if (!result.success) {
+    throw new ApiError(
+      {
+        error: `Unexpected response from ${route.path}: ${describeIssues(result.issues)}`,
+        code: "INVALID_RESPONSE",
+      },
+      response.statusText,
+      response.status
+    );
+  }
+
+  const output = result.output as ApiResponse<unknown>;
+  if (!response.ok || !output.success || output.data === undefined) {
+    throw new ApiError(
+      output,
+      `${route.summary} failed (${response.status})`,
+      response.status
+    );
+  }
+
+  return route.paymentRequired
+    ? { paid: true, data: output.data }
+    : output.data;
+}
+
+/**
+ * Build a client with one method per API route
+ */
+export function createApiClient(baseUrl: string): ApiClient {
+  const client: Record<string, (options?: RawOptions) => Promise<unknown>> = {};
+  for (const [name, route] of Object.entries(API_ROUTES)) {
+    client[name] = (options) => request(baseUrl, route, options);
+  }
+  return client as unknown as ApiClient;
+}
@@ -0,0 +1,23 @@
+// Shared API errors
+import type { ApiResponse } from "./types.js";
+
+/**
+ * An error body from the API, keeping its code
+ */
+export class ApiError extends Error {
+  readonly code?: ApiResponse<unknown>["code"];
+  readonly reason?: string;
+  readonly status?: number; // HTTP status, when the error came from a response
+
+  constructor(
+    body: Pick<ApiResponse<unknown>, "error" | "code" | "reason">,
+    fallback: string,
+    status?: number
+  ) {
+    super(body.error || fallback);
+    this.name = "ApiError";
+    this.code = body.code;
+    this.reason = body.reason;
+    this.status = status;
+  }
+}
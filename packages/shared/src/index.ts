@@ -1,3 +1,7 @@
 // Shared utilities and types
+export * from "./client.js";
+export * from "./errors.js";
+export * from "./routes.js";
+export * from "./schemas.js";
 export * from "./types.js";
 export * from "./utils.js";
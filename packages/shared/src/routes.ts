@@ -0,0 +1,124 @@
+// API route declarations
+// The server registers these paths and serves them as /openapi.json,
+// and createApiClient() derives its typed methods from them
+import * as v from "valibot";
+import { DEFAULT_X402_ROUTES } from "@atomic402/sui-sdk/routes";
+import {
+  AccessChallengeSchema,
+  ContentBodySchema,
+  ContentDelistRequestSchema,
+  ContentDelistResultSchema,
+  ContentListSchema,
+  ContentMetadataSchema,
+  ContentRegistrationRequestSchema,
+  ContentRegistrationResultSchema,
+  ContentUpdateRequestSchema,
+  AccessReceiptListSchema,
+  BundlePurchaseSchema,
+  BundleQuerySchema,
+  CreatorStatsQuerySchema,
+  CreatorStatsSchema,
+  ExecuteResultSchema,
+  SignedTransactionRequestSchema,
+  X402ResponseSchema,
+} from "./schemas.js";
+
+export interface ApiRoute {
+  method: "get" | "post" | "patch" | "delete";
+  path: string; // Hono-style, ':name' segments are path parameters
+  summary: string;
+  query?: v.GenericSchema; // Object of string query parameters
+  headers?: Record<string, string>; // Optional request headers, name to description
+  body?: v.GenericSchema; // JSON request body
+  response: v.GenericSchema; // `data` of the success envelope
+  paymentRequired?: v.GenericSchema; // Raw 402 body, for paywalled routes
+}
+
+export const API_ROUTES = {
+  listContent: {
+    method: "get",
+    path: "/content",
+    summary: "List available content",
+    response: ContentListSchema,
+  },
+  registerContent: {
+    method: "post",
+    path: "/content/register",
+    summary: "Register metadata for a ContentItem created on-chain",
+    body: ContentRegistrationRequestSchema,
+    response: ContentRegistrationResultSchema,
+  },
+  updateContent: {
+    method: "patch",
+    path: "/content/:id",
+    summary: "Sync a creator's on-chain price or metadata change",
+    body: ContentUpdateRequestSchema,
+    response: ContentMetadataSchema,
+  },
+  delistContent: {
+    method: "delete",
+    path: "/content/:id",
+    summary: "Stop selling content delisted on-chain; buyers keep access",
+    body: ContentDelistRequestSchema,
+    response: ContentDelistResultSchema,
+  },
+  getChallenge: {
+    method: "get",
+    path: DEFAULT_X402_ROUTES.challenge,
+    summary: "Issue a one-time challenge proving wallet ownership",
+    query: v.object({ address: v.string() }),
+    response: AccessChallengeSchema,
+  },
+  getContent: {
+    method: "get",
+    path: DEFAULT_X402_ROUTES.content,
+    summary: "Read paid content, or get a 402 with a PTB to sign",
+    query: v.object({ address: v.optional(v.string()) }),
+    headers: {
+      "X-Access-Proof": "Base64 JSON AccessProof for an owned receipt",
+      "X-PAYMENT": "Base64 JSON PaymentPayload (x402)",
+      "X-Content-Key":
+        "Base64 raw P-256 public key to release the content key to, encrypted",
+    },
+    response: ContentBodySchema,
+    paymentRequired: X402ResponseSchema,
+  },
+  executePurchase: {
+    method: "post",
+    path: DEFAULT_X402_ROUTES.execute,
+    summary: "Sponsor (if enabled) and execute a signed purchase",
+    headers: {
+      "Idempotency-Key": "Retry key bound to one transaction",
+    },
+    body: SignedTransactionRequestSchema,
+    response: ExecuteResultSchema,
+  },
+  getBundle: {
+    method: "get",
+    path: "/bundles",
+    summary:
+      "Get one 402 with a single PTB for a cart of content, or settle its X-PAYMENT",
+    query: BundleQuerySchema,
+    headers: {
+      "X-PAYMENT": "Base64 JSON PaymentPayload (x402)",
+    },
+    response: BundlePurchaseSchema,
+    paymentRequired: X402ResponseSchema,
+  },
+  listReceipts: {
+    method: "get",
+    path: "/receipts/:address",
+    summary: "List the AccessReceipts an address owns",
+    response: AccessReceiptListSchema,
+  },
+  creatorStats: {
+    method: "get",
+    path: "/creators/:address/stats",
+    summary:
+      "Sales of a creator's content, from indexed ContentPurchased events",
+    query: CreatorStatsQuerySchema,
+    response: CreatorStatsSchema,
+  },
+} as const satisfies Record<string, ApiRoute>;
+
+export type ApiRoutes = typeof API_ROUTES;
@@ -0,0 +1,119 @@
+// Shared runtime schemas
+// x402 schemas come from the SDK, app API bodies are defined here
+import * as v from "valibot";
+import {
+  AccessReceiptDataSchema,
+  ContentMetadataSchema,
+  EncryptedContentPayloadSchema,
+} from "@atomic402/sui-sdk/schemas";
+
+export * from "@atomic402/sui-sdk/schemas";
+
+const NonEmptySchema = v.pipe(v.string(), v.nonEmpty());
+
+/** Body of POST /content/register */
+export const ContentRegistrationRequestSchema = v.object({
+  contentId: NonEmptySchema,
+  creator: NonEmptySchema,
+  title: NonEmptySchema,
+  description: NonEmptySchema,
+  contentData: NonEmptySchema,
+  price: ContentMetadataSchema.entries.price, // In MIST
+  signature: v.optional(v.string()), // Creator's personal message signature
+  issuedAt: v.optional(v.number()), // Unix ms
+});
+
+export const ContentRegistrationResultSchema = v.object({
+  contentId: v.string(),
+});
+
+/**
+ * Body of PATCH /content/:id, sent once the change is made on-chain
+ * Every field set must match the ContentItem; the creator signs them all
+ */
+export const ContentUpdateRequestSchema = v.object({
+  title: v.optional(NonEmptySchema),
+  description: v.optional(NonEmptySchema),
+  price: v.optional(ContentMetadataSchema.entries.price), // In MIST
+  signature: NonEmptySchema, // Creator's personal message signature
+  issuedAt: v.number(), // Unix ms
+});
+
+/** Body of DELETE /content/:id, sent once the ContentItem is delisted */
+export const ContentDelistRequestSchema = v.object({
+  signature: NonEmptySchema, // Creator's personal message signature
+  issuedAt: v.number(), // Unix ms
+});
+
+export const ContentDelistResultSchema = v.object({
+  contentId: v.string(),
+  delistedAt: v.number(), // Unix ms
+});
+
+/**
+ * Premium content, returned once access is proven or paid for
+ * Encrypted for the X-Content-Key public key; plaintext only from servers
+ * that allow legacy readers without one
+ */
+export const ContentBodySchema = v.object({
+  id: v.string(),
+  title: v.string(),
+  content: v.optional(v.string()),
+  encrypted: v.optional(EncryptedContentPayloadSchema),
+});
+
+export const ContentListSchema = v.array(ContentMetadataSchema);
+
+/** Query of GET /bundles */
+export const BundleQuerySchema = v.object({
+  ids: NonEmptySchema, // Comma-separated content IDs, in checkout order
+  address: v.optional(v.string()), // Buyer, to build the PTB for
+});
+
+/** A cart bought in one transaction, once its X-PAYMENT settled */
+export const BundlePurchaseSchema = v.object({
+  contentIds: v.array(v.string()),
+  digest: v.string(),
+  explorer: v.optional(v.string()),
+});
+
+export const AccessReceiptListSchema = v.array(AccessReceiptDataSchema);
+
+const AmountSchema = ContentMetadataSchema.entries.price; // In MIST
+
+/** Query of GET /creators/:address/stats, Unix ms bounds */
+export const CreatorStatsQuerySchema = v.object({
+  from: v.optional(v.pipe(v.string(), v.regex(/^\d+$/))), // Inclusive
+  to: v.optional(v.pipe(v.string(), v.regex(/^\d+$/))), // Exclusive
+});
+
+/** One ContentPurchased or SubscriptionRenewed event for a creator's content */
+export const CreatorSaleSchema = v.object({
+  receiptId: v.string(),
+  contentId: v.string(),
+  contentTitle: v.string(),
+  buyer: v.string(),
+  pricePaid: AmountSchema,
+  timestamp: v.number(), // Unix ms
+  txDigest: v.string(),
+});
+
+export const CreatorItemStatsSchema = v.object({
+  contentId: v.string(),
+  title: v.string(),
+  price: AmountSchema,
+  coinType: v.string(),
+  sales: v.number(),
+  revenue: AmountSchema, // In the item's coin, less revenue shares
+  recentBuyers: v.array(v.string()), // Newest first, distinct
+});
+
+export const CreatorStatsSchema = v.object({
+  creator: v.string(),
+  from: v.optional(v.number()),
+  to: v.optional(v.number()),
+  totalSales: v.number(),
+  totalRevenue: AmountSchema, // SUI-priced items only
+  items: v.array(CreatorItemStatsSchema),
+  sales: v.array(CreatorSaleSchema), // Newest first
+});
@@ -1,48 +1,71 @@
 // Shared types
-export type ApiResponse<T> = {
-  data?: T;
-  error?: string;
-  success: boolean;
-};
-
-// x402 Protocol Types
-export interface X402Response {
-  statusCode: 402;
-  message: string;
-  paymentRequired: {
-    amount: string; // Amount in MIST (smallest unit)
-    recipient: string; // Sui address
-    transactionBytes: string; // Base64 encoded transaction
-    description: string;
-  };
-}
-
-export interface ContentMetadata {
-  id: string;
-  title: string;
-  description: string;
-  price: string; // In MIST
-  contentUrl: string;
-  creator: string;
-}
-
-export interface AccessReceiptData {
-  id: string;
-  contentId: string;
-  contentTitle: string;
-  pricePaid: string;
-  purchaser: string;
-  timestamp: string;
-}
-
-export interface SignedTransactionRequest {
-  transactionBytes: string;
-  signature: string;
-  publicKey: string;
-}
-
-export interface TransactionResult {
-  digest: string;
-  status: "success" | "failure";
-  effects?: any;
-}
+// x402 wire types come from the SDK, inferred from its runtime schemas
+import type * as v from "valibot";
+import type {
+  BundlePurchaseSchema,
+  ContentBodySchema,
+  ContentDelistRequestSchema,
+  ContentDelistResultSchema,
+  ContentRegistrationRequestSchema,
+  ContentRegistrationResultSchema,
+  ContentUpdateRequestSchema,
+  CreatorItemStatsSchema,
+  CreatorSaleSchema,
+  CreatorStatsSchema,
+} from "./schemas.js";
+
+export type {
+  AccessChallenge,
+  AccessProof,
+  AccessReceiptData,
+  ApiResponse,
+  BundleItem,
+  ContentMetadata,
+  ExecuteResult,
+  PaymentPayload,
+  PaymentQuote,
+  PaymentRequiredResponse,
+  PaymentRequirements,
+  SettlementResponse,
+  SignedTransactionRequest,
+  TransactionResult,
+  X402ErrorBody,
+  X402ErrorCode,
+  X402Response,
+} from "@atomic402/sui-sdk";
+
+/** Body of POST /content/register */
+export type ContentRegistrationRequest = v.InferOutput<
+  typeof ContentRegistrationRequestSchema
+>;
+
+export type ContentRegistrationResult = v.InferOutput<
+  typeof ContentRegistrationResultSchema
+>;
+
+/** Body of PATCH /content/:id */
+export type ContentUpdateRequest = v.InferOutput<
+  typeof ContentUpdateRequestSchema
+>;
+
+/** Body of DELETE /content/:id */
+export type ContentDelistRequest = v.InferOutput<
+  typeof ContentDelistRequestSchema
+>;
+
+export type ContentDelistResult = v.InferOutput<
+  typeof ContentDelistResultSchema
+>;
+
+/** Premium content, returned once access is proven or paid for */
+export type ContentBody = v.InferOutput<typeof ContentBodySchema>;
+
+/** A cart bought in one transaction, once its X-PAYMENT settled */
+export type BundlePurchase = v.InferOutput<typeof BundlePurchaseSchema>;
+
+/** Sales of a creator's content, from ContentPurchased events */
+export type CreatorStats = v.InferOutput<typeof CreatorStatsSchema>;
+
+export type CreatorItemStats = v.InferOutput<typeof CreatorItemStatsSchema>;
+
+export type CreatorSale = v.InferOutput<typeof CreatorSaleSchema>;
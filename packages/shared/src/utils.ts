@@ -7,3 +7,72 @@ export function formatError(error: unknown): string {
   return String(error);
 }
 
+export interface ContentRegistration {
+  contentId: string;
+  creator: string;
+  price: string; // In MIST
+  contentData: string;
+  issuedAt: number; // Unix ms
+}
+
+/** A creator's change to registered content, made on-chain first */
+export interface ContentUpdate {
+  contentId: string;
+  creator: string;
+  action: "update" | "delist";
+  title?: string;
+  description?: string;
+  price?: string; // In MIST
+  issuedAt: number; // Unix ms
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Build the personal message a creator signs to register content
+ * Binds the on-chain object, price and a hash of the premium content
+ */
+export async function buildContentRegistrationMessage(
+  registration: ContentRegistration
+): Promise<string> {
+  const contentHash = await sha256Hex(registration.contentData);
+
+  return [
+    "atomic402 content registration",
+    `Content: ${registration.contentId}`,
+    `Creator: ${registration.creator}`,
+    `Price: ${registration.price}`,
+    `Content Hash: ${contentHash}`,
+    `Issued At: ${new Date(registration.issuedAt).toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Build the personal message a creator signs to update or delist content
+ * Binds the object and every changed field; descriptions are hashed
+ */
+export async function buildContentUpdateMessage(
+  update: ContentUpdate
+): Promise<string> {
+  return [
+    update.action === "delist"
+      ? "atomic402 content delisting"
+      : "atomic402 content update",
+    `Content: ${update.contentId}`,
+    `Creator: ${update.creator}`,
+    ...(update.title === undefined ? [] : [`Title: ${update.title}`]),
+    ...(update.description === undefined
+      ? []
+      : [`Description Hash: ${await sha256Hex(update.description)}`]),
+    ...(update.price === undefined ? [] : [`Price: ${update.price}`]),
+    `Issued At: ${new Date(update.issuedAt).toISOString()}`,
+  ].join("\n");
+}